@@ -0,0 +1,103 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AxiosClone } from '../axiosClone';
+import type { HarLog, HarOptions } from './HarAdapter';
+import { MockAdapter } from './MockAdapter';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'har-'));
+let files = 0;
+
+afterAll(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const harClient = (har: Omit<HarOptions, 'path'> & { path?: string }) => {
+  const options = { path: path.join(dir, `${files++}.har`), ...har };
+  return { client: AxiosClone.create({ baseURL: 'http://api.test', har: options }), file: options.path };
+};
+
+const readHar = (file: string): HarLog => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+describe('HarAdapter', () => {
+  test('records traffic and replays it without the network', async () => {
+    const mock = new MockAdapter();
+    mock.onGet('/users').reply(200, [{ id: 1 }]);
+    mock.onPost('/users').reply(201, { id: 2 });
+    const { client, file } = harClient({ mode: 'record', adapter: mock.adapter });
+
+    await client.get('/users');
+    await client.post('/users', { name: 'ada' });
+
+    const { entries } = readHar(file).log;
+    expect(entries.map((entry) => [entry.request.method, entry.request.url, entry.response.status])).toEqual([
+      ['GET', 'http://api.test/users', 200],
+      ['POST', 'http://api.test/users', 201],
+    ]);
+    expect(entries[1].request.postData?.text).toBe('{"name":"ada"}');
+
+    const { client: replay } = harClient({ mode: 'replay', path: file });
+    expect((await replay.get('/users')).data).toEqual([{ id: 1 }]);
+    expect((await replay.post('/users', {})).data).toEqual({ id: 2 });
+  });
+
+  test('redacts credentials before writing', async () => {
+    const mock = new MockAdapter();
+    mock.onGet('/me').reply(200, 'ok', { 'Set-Cookie': 'sid=secret' });
+    const redact = ['authorization', 'set-cookie', 'x-api-key'];
+    const { client, file } = harClient({ mode: 'record', adapter: mock.adapter, redact });
+
+    await client.get('/me', { headers: { Authorization: 'Bearer token', 'X-Api-Key': 'key' } });
+    const contents = fs.readFileSync(file, 'utf8');
+    expect(contents).not.toContain('Bearer token');
+    expect(contents).not.toContain('sid=secret');
+    expect(contents).not.toContain('"key"');
+  });
+
+  test('starts every recording session from an empty file', async () => {
+    const first = new MockAdapter();
+    first.onGet('/v').reply(200, 'v1');
+    const { client, file } = harClient({ mode: 'record', adapter: first.adapter });
+    await client.get('/v');
+
+    const second = new MockAdapter();
+    second.onGet('/v').reply(200, 'v2');
+    await harClient({ mode: 'record', path: file, adapter: second.adapter }).client.get('/v');
+
+    expect(readHar(file).log.entries).toHaveLength(1);
+    expect((await harClient({ mode: 'replay', path: file }).client.get('/v')).data).toBe('v2');
+  });
+
+  test('answers repeated requests with successive recordings', async () => {
+    const mock = new MockAdapter();
+    mock.onGet('/count').replyOnce(200, '1');
+    mock.onGet('/count').reply(200, '2');
+    const { client, file } = harClient({ mode: 'record', adapter: mock.adapter });
+    await client.get('/count');
+    await client.get('/count');
+
+    const { client: replay } = harClient({ mode: 'replay', path: file });
+    const replies = [];
+    for (let i = 0; i < 3; i++) replies.push((await replay.get('/count')).data);
+    expect(replies).toEqual(['1', '2', '2']);
+  });
+
+  test('matches on bodies when asked to', async () => {
+    const mock = new MockAdapter();
+    mock.onPost('/search').replyOnce(200, 'results for a');
+    mock.onPost('/search').replyOnce(200, 'results for b');
+    const { client, file } = harClient({ mode: 'record', adapter: mock.adapter });
+    await client.post('/search', 'a');
+    await client.post('/search', 'b');
+
+    const { client: replay } = harClient({ mode: 'replay', path: file, match: { body: true } });
+    expect((await replay.post('/search', 'b')).data).toBe('results for b');
+    await expect(replay.post('/search', 'c')).rejects.toMatchObject({ code: 'ERR_BAD_REQUEST' });
+  });
+
+  test('fails clearly when replaying a missing file', async () => {
+    const { client } = harClient({ mode: 'replay', path: path.join(dir, 'missing.har') });
+    await expect(client.get('/x')).rejects.toMatchObject({ code: 'ERR_BAD_OPTION_VALUE' });
+  });
+});
@@ -0,0 +1,251 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { AdapterConfig, AxiosCloneAdapter } from '../types';
+import { AxiosCloneError } from '../types';
+import { getHeader, setHeader } from '../core/headers';
+import { fetchAdapter } from './fetchAdapter';
+
+interface HarHeader {
+  name: string;
+  value: string;
+}
+
+interface HarContent {
+  size: number;
+  mimeType: string;
+  text?: string;
+  encoding?: 'base64';
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string; encoding?: 'base64' };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: unknown[];
+    headers: HarHeader[];
+    content: HarContent;
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+}
+
+export interface HarLog {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface HarMatchOptions {
+  method?: boolean;
+  url?: boolean;
+  body?: boolean;
+  // Request headers that must also be equal
+  headers?: string[];
+}
+
+export interface HarOptions {
+  mode: 'record' | 'replay';
+  path: string;
+  match?: HarMatchOptions;
+  // Header names whose values are replaced before anything is written to disk
+  redact?: string[];
+  // Transport used while recording; defaults to fetch
+  adapter?: AxiosCloneAdapter;
+}
+
+const DEFAULT_REDACTED = ['authorization', 'cookie', 'set-cookie', 'proxy-authorization'];
+const REDACTED = '[REDACTED]';
+// These describe the wire encoding, which no longer applies to the decoded body we store
+const SKIPPED_ON_REPLAY = ['content-encoding', 'content-length', 'transfer-encoding'];
+const TEXT_MIME = /^(?:text\/|application\/(?:[\w.+-]+\+)?(?:json|xml)\b|application\/(?:javascript|x-www-form-urlencoded|x-ndjson)\b)/i;
+
+function encodeBody(bytes: Uint8Array, mimeType: string): { text: string; encoding?: 'base64' } {
+  if (TEXT_MIME.test(mimeType)) {
+    return { text: new TextDecoder().decode(bytes) };
+  }
+  return { text: Buffer.from(bytes).toString('base64'), encoding: 'base64' };
+}
+
+function decodeBody(text: string | undefined, encoding?: 'base64'): Uint8Array {
+  if (!text) return new Uint8Array();
+  return encoding === 'base64' ? new Uint8Array(Buffer.from(text, 'base64')) : new TextEncoder().encode(text);
+}
+
+// Serializes any fetch-compatible body into bytes, picking up FormData's generated Content-Type
+async function bodyToBytes(data: any, headers: Record<string, string>): Promise<Uint8Array | undefined> {
+  if (data === undefined || data === null) return undefined;
+  const encoded = new globalThis.Response(data);
+  const contentType = encoded.headers.get('Content-Type');
+  if (contentType && !getHeader(headers, 'Content-Type')) {
+    setHeader(headers, 'Content-Type', contentType);
+  }
+  return new Uint8Array(await encoded.arrayBuffer());
+}
+
+// Records traffic to a HAR 1.2 file or serves responses back from one without touching the network.
+// Each recording session starts from scratch and overwrites the file, so fixtures never go stale.
+export class HarAdapter {
+  private entries: HarEntry[] | undefined;
+  private used = new Set<HarEntry>();
+  private redact: string[];
+
+  constructor(private options: HarOptions) {
+    this.redact = (options.redact ?? DEFAULT_REDACTED).map((name) => name.toLowerCase());
+  }
+
+  readonly adapter: AxiosCloneAdapter = async (config) => {
+    const headers = { ...config.headers };
+    const body = await bodyToBytes(config.data, headers);
+    const request: AdapterConfig = { ...config, headers, data: body };
+
+    return this.options.mode === 'replay' ? this.replay(request, body) : this.record(request, body);
+  };
+
+  private async record(config: AdapterConfig, body: Uint8Array | undefined): Promise<globalThis.Response> {
+    const startedDateTime = new Date().toISOString();
+    const start = performance.now();
+    const response = await (this.options.adapter ?? fetchAdapter)(config);
+    const wait = performance.now() - start;
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const receive = performance.now() - start - wait;
+
+    const requestMime = getHeader(config.headers, 'Content-Type') ?? 'application/octet-stream';
+    const responseMime = response.headers.get('Content-Type') ?? 'application/octet-stream';
+    const responseHeaders: HarHeader[] = [];
+    response.headers.forEach((value, name) => responseHeaders.push({ name, value }));
+
+    const entries = this.load();
+    entries.push({
+      startedDateTime,
+      time: wait + receive,
+      request: {
+        method: config.method,
+        url: config.url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: this.redactHeaders(Object.entries(config.headers).map(([name, value]) => ({ name, value }))),
+        queryString: this.queryString(config.url),
+        postData: body ? { mimeType: requestMime, ...encodeBody(body, requestMime) } : undefined,
+        headersSize: -1,
+        bodySize: body?.byteLength ?? 0,
+      },
+      response: {
+        status: response.status,
+        statusText: response.statusText,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: this.redactHeaders(responseHeaders),
+        content: { size: bytes.byteLength, mimeType: responseMime, ...encodeBody(bytes, responseMime) },
+        redirectURL: response.headers.get('Location') ?? '',
+        headersSize: -1,
+        bodySize: bytes.byteLength,
+      },
+      cache: {},
+      timings: { send: 0, wait, receive },
+    });
+    this.save(entries);
+
+    return this.toResponse(response.status, response.statusText, response.headers, bytes);
+  }
+
+  private async replay(config: AdapterConfig, body: Uint8Array | undefined): Promise<globalThis.Response> {
+    const candidates = this.load().filter((entry) => this.matches(entry, config, body));
+    // Repeated identical requests are answered by successive recordings, then the last one sticks
+    const entry = candidates.find((candidate) => !this.used.has(candidate)) ?? candidates[candidates.length - 1];
+    if (!entry) {
+      throw new AxiosCloneError(
+        `No HAR entry in ${this.options.path} matches ${config.method} ${config.url}`,
+        AxiosCloneError.ERR_BAD_REQUEST,
+        config
+      );
+    }
+    this.used.add(entry);
+
+    const { status, statusText, headers, content } = entry.response;
+    const replayHeaders = new Headers();
+    for (const { name, value } of headers) {
+      if (!SKIPPED_ON_REPLAY.includes(name.toLowerCase())) replayHeaders.append(name, value);
+    }
+    return this.toResponse(status, statusText, replayHeaders, decodeBody(content.text, content.encoding));
+  }
+
+  private matches(entry: HarEntry, config: AdapterConfig, body: Uint8Array | undefined): boolean {
+    const { method = true, url = true, body: matchBody = false, headers = [] } = this.options.match ?? {};
+    const { request } = entry;
+
+    if (method && request.method.toUpperCase() !== config.method.toUpperCase()) return false;
+    if (url && request.url !== config.url) return false;
+    if (matchBody) {
+      const recorded = request.postData ? decodeBody(request.postData.text, request.postData.encoding) : new Uint8Array();
+      const sent = body ?? new Uint8Array();
+      if (Buffer.compare(Buffer.from(recorded), Buffer.from(sent)) !== 0) return false;
+    }
+    return headers.every((name) => {
+      const recorded = request.headers.find((header) => header.name.toLowerCase() === name.toLowerCase());
+      return (recorded?.value ?? undefined) === getHeader(config.headers, name);
+    });
+  }
+
+  private toResponse(status: number, statusText: string, headers: Headers, bytes: Uint8Array): globalThis.Response {
+    const body = [101, 204, 205, 304].includes(status) ? null : bytes;
+    return new globalThis.Response(body, { status, statusText, headers });
+  }
+
+  private redactHeaders(headers: HarHeader[]): HarHeader[] {
+    return headers.map(({ name, value }) => ({
+      name,
+      value: this.redact.includes(name.toLowerCase()) ? REDACTED : value,
+    }));
+  }
+
+  private queryString(url: string): HarHeader[] {
+    const query: HarHeader[] = [];
+    try {
+      new URL(url).searchParams.forEach((value, name) => query.push({ name, value }));
+    } catch {
+      // Relative URLs carry no parsable query here
+    }
+    return query;
+  }
+
+  private load(): HarEntry[] {
+    if (!this.entries) {
+      if (this.options.mode === 'record') {
+        this.entries = [];
+      } else if (fs.existsSync(this.options.path)) {
+        const har: HarLog = JSON.parse(fs.readFileSync(this.options.path, 'utf8'));
+        this.entries = har.log.entries;
+      } else {
+        throw new AxiosCloneError(`HAR file not found: ${this.options.path}`, AxiosCloneError.ERR_BAD_OPTION_VALUE);
+      }
+    }
+    return this.entries;
+  }
+
+  private save(entries: HarEntry[]): void {
+    const har: HarLog = {
+      log: { version: '1.2', creator: { name: 'axios-clone', version: '1.0.0' }, entries },
+    };
+    fs.mkdirSync(path.dirname(this.options.path), { recursive: true });
+    fs.writeFileSync(this.options.path, JSON.stringify(har, null, 2));
+  }
+}
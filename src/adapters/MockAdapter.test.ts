@@ -0,0 +1,82 @@
+import { describe, expect, test } from 'bun:test';
+import { createMockClient } from '../testUtils';
+
+describe('MockAdapter', () => {
+  test('matches handlers by method and baseURL-resolved path', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/users').reply(200, [{ id: 1 }]);
+    mock.onPost('/users').reply(201, { id: 2 });
+
+    const list = await client.get('/users', { params: { page: 2 } });
+    const created = await client.post('/users', { name: 'ada' });
+
+    expect(list.data).toEqual([{ id: 1 }]);
+    expect(created.status).toBe(201);
+    expect(created.data).toEqual({ id: 2 });
+  });
+
+  test('only ignores the query string when the matcher has none', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/search?q=a').reply(200, 'a');
+    mock.onGet(/\/search/).reply(200, 'any');
+
+    expect((await client.get('/search', { params: { q: 'a' } })).data).toBe('a');
+    expect((await client.get('/search', { params: { q: 'b' } })).data).toBe('any');
+  });
+
+  test('uses the first matching handler and drops once handlers after use', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/flaky').replyOnce(200, 'first');
+    mock.onGet('/flaky').reply(200, 'later');
+
+    expect((await client.get('/flaky')).data).toBe('first');
+    expect((await client.get('/flaky')).data).toBe('later');
+    expect((await client.get('/flaky')).data).toBe('later');
+  });
+
+  test('passes the request config to reply functions', async () => {
+    const { client, mock } = createMockClient();
+    mock.onPut('/echo').reply((config) => [200, { method: config.method, body: config.data }]);
+
+    const response = await client.put('/echo', { a: 1 });
+    expect(response.data).toEqual({ method: 'PUT', body: '{"a":1}' });
+  });
+
+  test('answers unmatched requests with 404 or throws when configured', async () => {
+    const { client } = createMockClient();
+    await expect(client.get('/missing', { retry: false })).rejects.toMatchObject({ response: { status: 404 } });
+
+    const { client: strict } = createMockClient({}, { mock: { onNoMatch: 'throwException' } });
+    await expect(strict.get('/missing', { retry: false })).rejects.toMatchObject({ code: 'ERR_BAD_REQUEST' });
+  });
+
+  test('simulates network errors and timeouts', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/down').networkError();
+    mock.onGet('/slow').timeout();
+
+    await expect(client.get('/down', { retry: false })).rejects.toMatchObject({ code: 'ERR_NETWORK' });
+    await expect(client.get('/slow', { retry: false })).rejects.toMatchObject({ code: 'ERR_TIMEOUT' });
+  });
+
+  test('records every request in the history', async () => {
+    const { client, mock } = createMockClient();
+    mock.onAny().reply(204);
+
+    await client.get('/a');
+    await client.delete('/b');
+    await client.get('/c');
+
+    expect(mock.history.map((config) => config.url)).toEqual([
+      'http://api.test/a',
+      'http://api.test/b',
+      'http://api.test/c',
+    ]);
+    expect(mock.calls('get')).toHaveLength(2);
+    expect(mock.calls('DELETE')[0].url).toBe('http://api.test/b');
+
+    mock.reset();
+    expect(mock.history).toHaveLength(0);
+    await expect(client.get('/a', { retry: false })).rejects.toMatchObject({ response: { status: 404 } });
+  });
+});
@@ -0,0 +1,233 @@
+import type { AdapterConfig, AxiosCloneAdapter } from '../types';
+import { AxiosCloneError } from '../types';
+import { buildFullPath } from '../core/buildFullPath';
+import { fetchAdapter } from './fetchAdapter';
+
+type UrlMatcher = string | RegExp | undefined;
+type ReplyTuple = [status: number, data?: any, headers?: Record<string, string>];
+type ReplyFunction = (config: AdapterConfig) => ReplyTuple | Promise<ReplyTuple>;
+
+interface Handler {
+  method: string | undefined;
+  url: UrlMatcher;
+  once: boolean;
+  respond: (config: AdapterConfig) => Promise<globalThis.Response>;
+}
+
+export interface MockAdapterOptions {
+  // Milliseconds to wait before every reply
+  delayResponse?: number;
+  // What to do with requests no handler matches; defaults to a 404 reply
+  onNoMatch?: 'passthrough' | 'throwException';
+}
+
+export class RequestHandler {
+  constructor(
+    private mock: MockAdapter,
+    private method: string | undefined,
+    private url: UrlMatcher
+  ) {}
+
+  reply(status: number | ReplyFunction, data?: any, headers?: Record<string, string>): MockAdapter {
+    return this.add(false, this.replyWith(status, data, headers));
+  }
+
+  replyOnce(status: number | ReplyFunction, data?: any, headers?: Record<string, string>): MockAdapter {
+    return this.add(true, this.replyWith(status, data, headers));
+  }
+
+  networkError(): MockAdapter {
+    return this.add(false, async () => {
+      throw new TypeError('Network Error');
+    });
+  }
+
+  networkErrorOnce(): MockAdapter {
+    return this.add(true, async () => {
+      throw new TypeError('Network Error');
+    });
+  }
+
+  timeout(): MockAdapter {
+    return this.add(false, async (config) => {
+      throw new AxiosCloneError(`timeout of ${config.timeout ?? 0}ms exceeded`, AxiosCloneError.ERR_TIMEOUT, config);
+    });
+  }
+
+  timeoutOnce(): MockAdapter {
+    return this.add(true, async (config) => {
+      throw new AxiosCloneError(`timeout of ${config.timeout ?? 0}ms exceeded`, AxiosCloneError.ERR_TIMEOUT, config);
+    });
+  }
+
+  passThrough(): MockAdapter {
+    return this.add(false, fetchAdapter);
+  }
+
+  private add(once: boolean, respond: Handler['respond']): MockAdapter {
+    this.mock.addHandler({ method: this.method, url: this.url, once, respond });
+    return this.mock;
+  }
+
+  private replyWith(status: number | ReplyFunction, data?: any, headers?: Record<string, string>) {
+    return async (config: AdapterConfig) => {
+      const [replyStatus, replyData, replyHeaders] =
+        typeof status === 'function' ? await status(config) : [status, data, headers];
+      return createMockResponse(replyStatus, replyData, replyHeaders);
+    };
+  }
+}
+
+function createMockResponse(status: number, data?: any, headers: Record<string, string> = {}): globalThis.Response {
+  const responseHeaders = new Headers(headers);
+  let body: BodyInit | null = null;
+
+  // Null-body statuses cannot carry a payload
+  if (data !== undefined && data !== null && ![204, 205, 304].includes(status)) {
+    if (typeof data === 'string') {
+      body = data;
+      if (!responseHeaders.has('Content-Type')) {
+        responseHeaders.set('Content-Type', 'text/plain;charset=utf-8');
+      }
+    } else if (
+      data instanceof Blob ||
+      data instanceof ArrayBuffer ||
+      ArrayBuffer.isView(data) ||
+      data instanceof ReadableStream
+    ) {
+      body = data as BodyInit;
+    } else {
+      body = JSON.stringify(data);
+      if (!responseHeaders.has('Content-Type')) {
+        responseHeaders.set('Content-Type', 'application/json');
+      }
+    }
+  }
+
+  return new globalThis.Response(body, { status, headers: responseHeaders });
+}
+
+export class MockAdapter {
+  readonly history: AdapterConfig[] = [];
+  private handlers: Handler[] = [];
+  private options: MockAdapterOptions;
+
+  // Passing an instance installs the mock as that instance's default adapter
+  constructor(instance?: { defaults: { adapter?: AxiosCloneAdapter } }, options: MockAdapterOptions = {}) {
+    this.options = options;
+    if (instance) {
+      instance.defaults.adapter = this.adapter;
+    }
+  }
+
+  readonly adapter: AxiosCloneAdapter = async (config) => {
+    this.history.push(config);
+
+    if (this.options.delayResponse) {
+      await delay(this.options.delayResponse, config.signal);
+    }
+
+    const handler = this.findHandler(config);
+    if (!handler) {
+      if (this.options.onNoMatch === 'passthrough') return fetchAdapter(config);
+      if (this.options.onNoMatch === 'throwException') {
+        throw new AxiosCloneError(
+          `Could not find mock handler for ${config.method} ${config.url}`,
+          AxiosCloneError.ERR_BAD_REQUEST,
+          config
+        );
+      }
+      return createMockResponse(404);
+    }
+
+    if (handler.once) {
+      this.handlers.splice(this.handlers.indexOf(handler), 1);
+    }
+    return handler.respond(config);
+  };
+
+  onAny(url?: UrlMatcher) {
+    return new RequestHandler(this, undefined, url);
+  }
+
+  onGet(url?: UrlMatcher) {
+    return new RequestHandler(this, 'GET', url);
+  }
+
+  onPost(url?: UrlMatcher) {
+    return new RequestHandler(this, 'POST', url);
+  }
+
+  onPut(url?: UrlMatcher) {
+    return new RequestHandler(this, 'PUT', url);
+  }
+
+  onPatch(url?: UrlMatcher) {
+    return new RequestHandler(this, 'PATCH', url);
+  }
+
+  onDelete(url?: UrlMatcher) {
+    return new RequestHandler(this, 'DELETE', url);
+  }
+
+  onHead(url?: UrlMatcher) {
+    return new RequestHandler(this, 'HEAD', url);
+  }
+
+  onOptions(url?: UrlMatcher) {
+    return new RequestHandler(this, 'OPTIONS', url);
+  }
+
+  addHandler(handler: Handler): void {
+    this.handlers.push(handler);
+  }
+
+  // Recorded requests, optionally narrowed to one method
+  calls(method?: string): AdapterConfig[] {
+    return method ? this.history.filter((config) => config.method === method.toUpperCase()) : [...this.history];
+  }
+
+  resetHandlers(): void {
+    this.handlers = [];
+  }
+
+  resetHistory(): void {
+    this.history.length = 0;
+  }
+
+  reset(): void {
+    this.resetHandlers();
+    this.resetHistory();
+  }
+
+  private findHandler(config: AdapterConfig): Handler | undefined {
+    return this.handlers.find(
+      (handler) =>
+        (!handler.method || handler.method === config.method) && matchesUrl(handler.url, config)
+    );
+  }
+}
+
+function matchesUrl(matcher: UrlMatcher, config: AdapterConfig): boolean {
+  if (matcher === undefined) return true;
+  if (matcher instanceof RegExp) return matcher.test(config.url);
+
+  // String matchers resolve against baseURL and ignore the query string unless they include one
+  const expected = buildFullPath(config.baseURL, matcher);
+  const actual = expected.includes('?') ? config.url : config.url.split('?')[0];
+  return actual === expected;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
@@ -0,0 +1,19 @@
+import type { AdapterConfig } from '../types';
+
+export async function fetchAdapter(config: AdapterConfig): Promise<globalThis.Response> {
+  const init: RequestInit & { duplex?: 'half' } = {
+    method: config.method,
+    headers: config.headers,
+    body: config.data,
+    signal: config.signal,
+    credentials: config.withCredentials ? 'include' : 'same-origin',
+    redirect: config.redirect,
+  };
+
+  // Node's fetch refuses streaming request bodies unless half-duplex is requested
+  if (config.data instanceof ReadableStream) {
+    init.duplex = 'half';
+  }
+
+  return fetch(config.url, init);
+}
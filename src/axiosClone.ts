@@ -1,150 +1,582 @@
-import type { RetryOptions, RequestConfig, Response, AxiosRequestConfig, AxiosInstance } from './types';
+import type {
+  RetryOptions,
+  RequestConfig,
+  Response,
+  AxiosRequestConfig,
+  AxiosInstance,
+  AxiosDefaults,
+  CreateAxiosDefaults,
+  TransformRequest,
+  TransformResponse,
+  AdapterConfig,
+  AxiosCloneAdapter,
+  QueueStats,
+  AxiosClonePlugin,
+  PaginateConfig,
+  PaginationStrategy,
+  ServerSentEvent,
+  StreamConfig,
+  Schema,
+  ValidationIssue,
+  Interceptor,
+  RequestHooks,
+  RequestTimings,
+} from './types';
+import { AxiosCloneError, CanceledError, ValidationError, isAxiosCloneError, isCancel } from './types';
+import { InterceptorManager } from './core/InterceptorManager';
+import { mergeConfig } from './core/mergeConfig';
+import { encodeBasicAuth, flattenHeaders, getHeader, removeHeader, setHeader } from './core/headers';
+import { buildFullPath } from './core/buildFullPath';
+import { buildURL } from './core/buildURL';
+import { resolveRetryPolicy, shouldRetry, getRetryDelay } from './core/retry';
+import { HttpCache } from './core/HttpCache';
+import { RequestQueue, releaseOnStreamEnd } from './core/RequestQueue';
+import type { CookieJar } from './core/CookieJar';
+import { linkHeaderPagination } from './core/pagination';
+import { parseNDJSON, parseServerSentEvents, readLines, type SSEParseState } from './core/eventStream';
+import { createTraceparent } from './core/trace';
+import { withDownloadProgress, withUploadProgress } from './core/progress';
+import { fetchAdapter } from './adapters/fetchAdapter';
+import { defaultTransformRequest, defaultTransformResponse, readResponseBody } from './core/transforms';
+
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+const baseDefaults: AxiosDefaults = {
+  timeout: 0,
+  withCredentials: false,
+  adapter: fetchAdapter,
+  validateStatus: (status) => status >= 200 && status < 300,
+  transformRequest: [defaultTransformRequest],
+  transformResponse: [defaultTransformResponse],
+  headers: {
+    common: { Accept: 'application/json, text/plain, */*' },
+    get: {},
+    post: {},
+    put: {},
+    patch: {},
+    delete: {},
+    head: {},
+    options: {},
+  },
+};
 
 export class AxiosClone implements AxiosInstance {
+  static isAxiosCloneError = isAxiosCloneError;
+  static isCancel = isCancel;
+
   private retryOptions: RetryOptions;
-  private interceptors = {
-    request: [] as Array<(config: RequestConfig) => RequestConfig>,
-    response: [] as Array<(response: Response<any>) => Response<any>>,
+  private httpCache = new HttpCache();
+  private queue: RequestQueue;
+  readonly jar?: CookieJar;
+  readonly hooks: RequestHooks;
+  defaults: AxiosDefaults;
+  readonly interceptors = {
+    request: new InterceptorManager<RequestConfig>(),
+    response: new InterceptorManager<Response<any>>(),
   };
 
-  constructor(retryOptions: RetryOptions = { retries: 3, delay: 1000 }) {
+  constructor(retryOptions: RetryOptions = { retries: 3, delay: 1000 }, defaults: CreateAxiosDefaults = {}) {
+    const {
+      maxConcurrent,
+      maxRequestsPerInterval,
+      interval,
+      jar,
+      onRequestStart,
+      onRequestEnd,
+      onError,
+      har,
+      ...requestDefaults
+    } = defaults;
     this.retryOptions = retryOptions;
+    this.jar = jar;
+    this.hooks = { onRequestStart, onRequestEnd, onError };
+    this.queue = new RequestQueue({ maxConcurrent, maxRequestsPerInterval, interval });
+    this.defaults = mergeConfig(baseDefaults, requestDefaults);
+    if (har) {
+      // Loaded on first use so the fs-based HAR code stays out of fetch-only bundles
+      const transport = this.defaults.adapter;
+      let harAdapter: Promise<AxiosCloneAdapter> | undefined;
+      this.defaults.adapter = async (config) => {
+        harAdapter ??= import('./adapters/HarAdapter').then(
+          ({ HarAdapter }) => new HarAdapter({ adapter: transport, ...har }).adapter
+        );
+        return (await harAdapter)(config);
+      };
+    }
+  }
+
+  static create(defaults: CreateAxiosDefaults = {}, retryOptions?: RetryOptions): AxiosClone {
+    return new AxiosClone(retryOptions, defaults);
   }
 
-  useRequestInterceptor(interceptor: (config: RequestConfig) => RequestConfig): void {
-    this.interceptors.request.push(interceptor);
+  addPlugin(...plugins: AxiosClonePlugin[]): void {
+    for (const plugin of plugins) {
+      plugin(this);
+    }
   }
 
-  useResponseInterceptor(interceptor: (response: Response<any>) => Response<any>): void {
-    this.interceptors.response.push(interceptor);
+  getQueueStats(): QueueStats {
+    return this.queue.stats();
   }
 
-  private async requestWithRetry<T>(config: RequestConfig, retries: number, delay: number): Promise<Response<T>> {
+  useRequestInterceptor(interceptor: (config: RequestConfig) => RequestConfig | Promise<RequestConfig>): number {
+    return this.interceptors.request.use(interceptor);
+  }
+
+  useResponseInterceptor(interceptor: (response: Response<any>) => Response<any> | Promise<Response<any>>): number {
+    return this.interceptors.response.use(interceptor);
+  }
+
+  // Queues the request and wraps it with timings and observability hooks
+  private async executeRequest<T>(config: RequestConfig): Promise<Response<T>> {
+    const startedAt = Date.now();
+    const start = performance.now();
+    let queued = 0;
+
+    if (config.traceparent) {
+      const headers = { ...config.headers };
+      setHeader(headers, 'traceparent', config.traceparent === true ? createTraceparent() : config.traceparent);
+      config = { ...config, headers };
+    }
+
+    const timingsFrom = (partial?: Partial<RequestTimings>): RequestTimings => ({
+      firstByte: 0,
+      bodyRead: 0,
+      attempts: 0,
+      retryDelays: [],
+      ...partial,
+      startedAt,
+      queued,
+      total: performance.now() - start,
+    });
+
+    // Every attempt waits in the queue; the start hook fires once, when the first one leaves it
+    let started = false;
+    const onAttemptStart = (waited: number) => {
+      queued += waited;
+      if (!started) {
+        started = true;
+        this.runHook(() => this.hooks.onRequestStart?.(config));
+      }
+    };
+
     try {
-      return await this.requestInternal<T>(config);
-    } catch (error: any) {
-      if (retries > 0 && (error.name === 'FetchError' || error.response?.status >= 500)) {
-        const backoffDelay = delay * Math.pow(2, this.retryOptions.retries - retries);
-        await new Promise((resolve) => setTimeout(resolve, backoffDelay));
-        return this.requestWithRetry(config, retries - 1, backoffDelay);
-      } else {
-        throw new Error(`Request failed after ${this.retryOptions.retries} retries: ${error.message}`);
+      const response = await this.dispatchRequest<T>(config, onAttemptStart);
+      // Cache hits never reach the network, but the hooks still come in pairs
+      if (!started) onAttemptStart(0);
+      // Validated here rather than per attempt so cached and merged responses are checked too
+      if (config.schema) {
+        response.data = this.validateData<T>(config.schema, response);
       }
+      response.timings = timingsFrom(response.timings);
+      this.runHook(() => this.hooks.onRequestEnd?.(response));
+      return response;
+    } catch (error) {
+      const failure = AxiosCloneError.from(error, AxiosCloneError.ERR_NETWORK, config);
+      failure.timings = timingsFrom(failure.timings);
+      this.runHook(() => this.hooks.onError?.(failure));
+      throw failure;
     }
   }
 
-  private appendParamsToUrl(url: string, params?: Record<string, any>): string {
-    if (!params) return url;
+  // A failing metrics hook must never fail the request it observes
+  private runHook(hook: () => void): void {
+    try {
+      hook();
+    } catch (err) {
+      console.error('Request hook error:', err);
+    }
+  }
 
-    const urlObj = new URL(url);
-    Object.entries(params).forEach(([key, value]) => {
-      if (Array.isArray(value)) {
-        value.forEach(val => urlObj.searchParams.append(key, val));
-      } else if (typeof value === 'object' && value !== null) {
-        Object.entries(value).forEach(([subKey, subVal]) => {
-          urlObj.searchParams.append(`${key}[${subKey}]`, subVal as string);
-        });
-      } else {
-        urlObj.searchParams.append(key, value);
+  private dispatchRequest<T>(config: RequestConfig, onAttemptStart: (waited: number) => void): Promise<Response<T>> {
+    if (HttpCache.isEnabled(config)) {
+      return this.httpCache.handle<T>(config, (cacheConfig) => this.requestWithRetry<T>(cacheConfig, onAttemptStart));
+    }
+    return this.requestWithRetry<T>(config, onAttemptStart);
+  }
+
+  // Retries go through the queue too, so they count against the concurrency and rate limits
+  private scheduleAttempt<T>(config: RequestConfig, onAttemptStart: (waited: number) => void): Promise<Response<T>> {
+    return this.queue.schedule(config, async (waited, hold) => {
+      onAttemptStart(waited);
+      const response = await this.requestInternal<T>(config);
+      // A streamed body is still downloading, so its slot stays taken until it is read or cancelled
+      if (response.data instanceof ReadableStream) {
+        response.data = releaseOnStreamEnd(response.data, hold()) as T;
       }
+      return response;
     });
+  }
+
+  private async requestWithRetry<T>(config: RequestConfig, onAttemptStart: (waited: number) => void): Promise<Response<T>> {
+    const policy = resolveRetryPolicy(this.retryOptions, config);
+    const retryDelays: number[] = [];
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.scheduleAttempt<T>(config, onAttemptStart);
+        response.timings = { ...response.timings!, attempts: attempt, retryDelays };
+        return response;
+      } catch (error) {
+        const failure = AxiosCloneError.from<T>(error, AxiosCloneError.ERR_NETWORK, config);
+        failure.attempts = attempt;
+        failure.timings = { ...(failure.timings ?? failure.response?.timings)!, attempts: attempt, retryDelays };
+        if (!(await shouldRetry(failure, attempt, policy))) {
+          throw failure;
+        }
+
+        const retryDelay = getRetryDelay(failure, attempt, policy);
+        retryDelays.push(retryDelay);
+        await policy.onRetry?.(failure, attempt, retryDelay);
+        await this.wait(retryDelay, config);
+      }
+    }
+  }
 
-    return urlObj.toString();
+  // Sleeps between retries, bailing out early if the caller aborts
+  private wait(ms: number, config: RequestConfig): Promise<void> {
+    const { signal } = config;
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new CanceledError(undefined, config));
+        return;
+      }
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CanceledError(undefined, config));
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   private async requestInternal<T>(config: RequestConfig): Promise<Response<T>> {
-    const { method, url, data, headers, params, timeout } = config;
-
-    const fullUrl = this.appendParamsToUrl(url!, params);
+    const { url, baseURL, params, paramsSerializer, timeout, signal } = config;
 
-    const controller = new AbortController();
-    const timeoutId = timeout ? setTimeout(() => controller.abort(), timeout) : undefined;
+    const fullUrl = buildURL(buildFullPath(baseURL, url ?? ''), params, paramsSerializer);
 
-    const fetchOptions: RequestInit = {
-      method,
-      headers,
-      body: data && typeof data !== 'string' ? JSON.stringify(data) : data,
-      signal: controller.signal,
-    };
+    if (signal?.aborted) {
+      throw new CanceledError(undefined, config);
+    }
 
+    // Transforms run on every attempt so retries get a fresh body (and fresh upload progress)
+    const headers = { ...config.headers };
+    if (config.auth) {
+      setHeader(headers, 'Authorization', `Basic ${encodeBasicAuth(config.auth.username, config.auth.password)}`);
+    }
+    const jar = config.withCredentials ? this.jar : undefined;
+    const initiator = getHeader(headers, 'Origin') ?? getHeader(headers, 'Referer');
+    const ownCookies = getHeader(headers, 'Cookie');
+    if (jar) {
+      const jarCookies = jar.getCookieString(fullUrl, { method: config.method, initiator });
+      const cookies = [ownCookies, jarCookies].filter(Boolean).join('; ');
+      if (cookies) setHeader(headers, 'Cookie', cookies);
+    }
+    let body: any;
     try {
-      const response = await fetch(fullUrl, fetchOptions);
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        throw new Error(`Request failed with status ${response.status}: ${response.statusText}`);
+      body = this.transformData(config.transformRequest, config, config.data, headers);
+      if (config.onUploadProgress) {
+        body = await withUploadProgress(body, headers, config.onUploadProgress);
       }
+    } catch (error) {
+      throw AxiosCloneError.from(error, AxiosCloneError.ERR_BAD_REQUEST, config);
+    }
 
-      const contentType = response.headers.get('Content-Type');
-      let responseData: any;
-      if (contentType?.includes('application/json')) {
-        responseData = await response.json();
-      } else if (contentType?.includes('text/')) {
-        responseData = await response.text();
-      } else {
-        responseData = await response.blob();
+    // One controller per attempt, aborted by either the caller's signal or our own timeout
+    const controller = new AbortController();
+    let timedOut = false;
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const timeoutId = timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, timeout)
+      : undefined;
+
+    const request: AdapterConfig = { ...config, url: fullUrl, headers, data: body, signal: controller.signal };
+    const adapter = config.adapter ?? fetchAdapter;
+    const attemptStart = performance.now();
+
+    try {
+      let response = jar
+        ? await this.followRedirects(request, adapter, jar, { initiator, ownCookies })
+        : await adapter(request);
+      const firstByte = performance.now() - attemptStart;
+      if (config.onDownloadProgress) {
+        response = withDownloadProgress(response, config.onDownloadProgress);
       }
 
-      return {
+      const result: Response<T> = {
         status: response.status,
+        statusText: response.statusText,
         headers: response.headers,
         config,
-        data: responseData,
+        request,
+        data: await readResponseBody(response, config.responseType),
       };
-    } catch (error: any) {
-      if (error.name === 'AbortError') {
-        throw new Error('Request timed out');
+      result.timings = {
+        startedAt: 0,
+        queued: 0,
+        firstByte,
+        bodyRead: performance.now() - attemptStart - firstByte,
+        total: 0,
+        attempts: 1,
+        retryDelays: [],
+      };
+
+      try {
+        result.data = this.transformData(config.transformResponse, config, result.data, response.headers, response.status);
+      } catch (error) {
+        throw AxiosCloneError.from(error, AxiosCloneError.ERR_BAD_RESPONSE, config, request, result);
+      }
+
+      const { validateStatus } = config;
+      if (validateStatus && !validateStatus(response.status)) {
+        const code = response.status >= 500 ? AxiosCloneError.ERR_BAD_RESPONSE : AxiosCloneError.ERR_BAD_REQUEST;
+        throw new AxiosCloneError<T>(`Request failed with status code ${response.status}`, code, config, request, result);
+      }
+
+      return result;
+    } catch (error) {
+      if (signal?.aborted) {
+        throw new CanceledError(undefined, config, request);
+      }
+      if (timedOut) {
+        throw new AxiosCloneError(`timeout of ${timeout}ms exceeded`, AxiosCloneError.ERR_TIMEOUT, config, request);
+      }
+      throw AxiosCloneError.from(error, AxiosCloneError.ERR_NETWORK, config, request);
+    } finally {
+      clearTimeout(timeoutId);
+      // A returned stream is still being read, so the caller's signal has to keep reaching it
+      if (config.responseType !== 'stream') {
+        signal?.removeEventListener('abort', onAbort);
       }
-      throw new Error(`Network error: ${error.message}`);
     }
   }
 
-  async request<T>(config: AxiosRequestConfig): Promise<Response<T>> {
-    let processedConfig: RequestConfig = { ...config, method: config.method || 'GET' };
-    for (const interceptor of this.interceptors.request) {
-      processedConfig = interceptor(processedConfig);
+  // fetch would follow redirects out of sight of the jar, so with a jar every hop goes through here
+  // to store the cookies it sets and send the cookies it matches
+  private async followRedirects(
+    request: AdapterConfig,
+    adapter: AxiosCloneAdapter,
+    jar: CookieJar,
+    context: { initiator?: string; ownCookies?: string }
+  ): Promise<globalThis.Response> {
+    const maxRedirects = request.maxRedirects ?? 5;
+    const origin = new URL(request.url).origin;
+    let current = request;
+
+    for (let hop = 0; ; hop++) {
+      const response = await adapter({ ...current, redirect: 'manual' });
+      jar.setCookies(response.headers.getSetCookie(), current.url);
+
+      const location = response.headers.get('Location');
+      if (!REDIRECT_STATUSES.has(response.status) || !location || hop >= maxRedirects) {
+        return response;
+      }
+      await response.body?.cancel();
+
+      const url = new URL(location, current.url).toString();
+      const headers = { ...current.headers };
+      let { method, data } = current;
+      // Browsers turn 303s, and POSTs answered with 301/302, into body-less GETs
+      if (response.status === 303 ? method !== 'HEAD' : response.status <= 302 && method === 'POST') {
+        method = 'GET';
+        data = undefined;
+        removeHeader(headers, 'Content-Type');
+        removeHeader(headers, 'Content-Length');
+      }
+      // Like fetch, credentials the caller set never follow a redirect to another origin
+      if (new URL(url).origin !== new URL(current.url).origin) {
+        removeHeader(headers, 'Authorization');
+        removeHeader(headers, 'Proxy-Authorization');
+      }
+      const ownCookies = new URL(url).origin === origin ? context.ownCookies : undefined;
+
+      const jarCookies = jar.getCookieString(url, { method, initiator: context.initiator });
+      const cookies = [ownCookies, jarCookies].filter(Boolean).join('; ');
+      if (cookies) {
+        setHeader(headers, 'Cookie', cookies);
+      } else {
+        removeHeader(headers, 'Cookie');
+      }
+      current = { ...current, url, method, data, headers };
     }
+  }
 
-    const { retries, delay } = this.retryOptions;
-    let response: Response<T>;
+  private validateData<T>(schema: Schema<T>, response: Response<T>): T {
     try {
-      response = await this.requestWithRetry<T>(processedConfig, retries, delay);
-    } catch (error) {
-      throw error;
+      return schema.parse(response.data);
+    } catch (error: any) {
+      // zod and the built-in validator both expose `issues` with `path` and `message`
+      const issues: ValidationIssue[] = Array.isArray(error?.issues)
+        ? error.issues.map((issue: any) => ({ path: issue.path ?? [], message: String(issue.message) }))
+        : [{ path: [], message: error instanceof Error ? error.message : String(error) }];
+      const failure = new ValidationError<T>(issues, response.config, response.request, response);
+      failure.cause = error;
+      throw failure;
     }
+  }
 
-    for (const interceptor of this.interceptors.response) {
-      response = interceptor(response);
-    }
+  private transformData(
+    transforms: TransformRequest | TransformResponse | Array<TransformRequest | TransformResponse> | undefined,
+    config: RequestConfig,
+    data: any,
+    ...rest: any[]
+  ): any {
+    if (!transforms) return data;
+    const list = Array.isArray(transforms) ? transforms : [transforms];
+    return list.reduce((value, transform) => (transform as (...args: any[]) => any).call(config, value, ...rest), data);
+  }
+
+  async request<T>(config: AxiosRequestConfig<T>): Promise<Response<T>> {
+    const merged = mergeConfig(this.defaults, config);
+    const method = (merged.method || 'GET').toUpperCase();
+    const initialConfig: RequestConfig = { ...merged, method, headers: flattenHeaders(merged.headers, method) };
+
+    // As in axios, the request interceptor added last runs first; response interceptors run in order
+    const requestInterceptors: Interceptor<RequestConfig>[] = [];
+    this.interceptors.request.forEach((interceptor) => requestInterceptors.unshift(interceptor));
+
+    let promise: Promise<any> = Promise.resolve(initialConfig);
+    requestInterceptors.forEach(({ fulfilled, rejected, runWhen }) => {
+      promise = promise.then(
+        (processedConfig: RequestConfig) =>
+          fulfilled && (!runWhen || runWhen(processedConfig)) ? fulfilled(processedConfig) : processedConfig,
+        rejected
+      );
+    });
 
-    return response;
+    promise = promise.then((processedConfig: RequestConfig) => this.executeRequest<T>(processedConfig));
+
+    this.interceptors.response.forEach(({ fulfilled, rejected }) => {
+      promise = promise.then(fulfilled, rejected);
+    });
+
+    return promise;
   }
 
-  get<T>(url: string, config: Omit<RequestConfig, 'method' | 'url'> = {}): Promise<Response<T>> {
+  get<T>(url: string, config: Omit<RequestConfig<T>, 'method' | 'url'> = {}): Promise<Response<T>> {
     return this.request<T>({ ...config, method: 'GET', url });
   }
 
-  post<T>(url: string, data: any, config: Omit<RequestConfig, 'method' | 'url' | 'data'> = {}): Promise<Response<T>> {
+  post<T>(url: string, data: any, config: Omit<RequestConfig<T>, 'method' | 'url' | 'data'> = {}): Promise<Response<T>> {
     return this.request<T>({ ...config, method: 'POST', url, data });
   }
 
-  put<T>(url: string, data: any, config: Omit<RequestConfig, 'method' | 'url' | 'data'> = {}): Promise<Response<T>> {
+  put<T>(url: string, data: any, config: Omit<RequestConfig<T>, 'method' | 'url' | 'data'> = {}): Promise<Response<T>> {
     return this.request<T>({ ...config, method: 'PUT', url, data });
   }
 
-  delete<T>(url: string, config: Omit<RequestConfig, 'method' | 'url'> = {}): Promise<Response<T>> {
+  delete<T>(url: string, config: Omit<RequestConfig<T>, 'method' | 'url'> = {}): Promise<Response<T>> {
     return this.request<T>({ ...config, method: 'DELETE', url });
   }
 
-  head<T>(url: string, config: Omit<RequestConfig, 'method' | 'url'> = {}): Promise<Response<T>> {
+  head<T>(url: string, config: Omit<RequestConfig<T>, 'method' | 'url'> = {}): Promise<Response<T>> {
     return this.request<T>({ ...config, method: 'HEAD', url });
   }
 
-  patch<T>(url: string, data: any, config: Omit<RequestConfig, 'method' | 'url' | 'data'> = {}): Promise<Response<T>> {
+  patch<T>(url: string, data: any, config: Omit<RequestConfig<T>, 'method' | 'url' | 'data'> = {}): Promise<Response<T>> {
     return this.request<T>({ ...config, method: 'PATCH', url, data });
   }
 
-  options<T>(url: string, config: Omit<RequestConfig, 'method' | 'url'> = {}): Promise<Response<T>> {
+  // Yields items page by page; breaking out of the loop stops further requests
+  async *paginate<T>(
+    url: string,
+    config: PaginateConfig = {},
+    strategy: PaginationStrategy<T> = linkHeaderPagination<T>()
+  ): AsyncGenerator<T, void, undefined> {
+    const { maxPages = Infinity, ...requestConfig } = config;
+    let next: AxiosRequestConfig | null = { ...requestConfig, url };
+    if (strategy.getInitialRequest) {
+      next = strategy.getInitialRequest(next);
+    }
+
+    for (let page = 1; next && page <= maxPages; page++) {
+      const response: Response<any> = await this.request<any>(next);
+      yield* strategy.getItems(response);
+      next = strategy.getNextRequest(response, next, page);
+    }
+  }
+
+  // Yields SSE events or NDJSON values as they arrive. SSE streams can reconnect, resuming from the last event id.
+  async *stream<T = ServerSentEvent>(url: string, config: StreamConfig = {}): AsyncGenerator<T, void, undefined> {
+    const { format, reconnect = false, lastEventId, ...requestConfig } = config;
+    const reconnectOptions = typeof reconnect === 'object' ? reconnect : {};
+    const maxRetries = reconnect ? reconnectOptions.maxRetries ?? Infinity : 0;
+    const state: SSEParseState = { lastEventId };
+
+    for (let attempt = 0; ; attempt++) {
+      const headers = { ...requestConfig.headers };
+      if (!getHeader(headers, 'Accept')) {
+        setHeader(headers, 'Accept', format === 'ndjson' ? 'application/x-ndjson' : 'text/event-stream');
+      }
+      if (state.lastEventId) {
+        setHeader(headers, 'Last-Event-ID', state.lastEventId);
+      }
+
+      let isEventStream = format !== 'ndjson';
+      try {
+        const response = await this.request<ReadableStream<Uint8Array> | null>({
+          ...requestConfig,
+          url,
+          headers,
+          responseType: 'stream',
+        });
+        // 204 is the server's way of telling SSE clients to stop reconnecting
+        if (response.status === 204 || !response.data) return;
+
+        isEventStream = format ? format === 'sse' : !!response.headers.get('Content-Type')?.includes('text/event-stream');
+        const lines = readLines(response.data);
+        if (!isEventStream) {
+          yield* parseNDJSON<T>(lines);
+          return;
+        }
+        yield* parseServerSentEvents(lines, state) as AsyncGenerator<any, void, undefined>;
+      } catch (error) {
+        if (requestConfig.signal?.aborted) {
+          throw new CanceledError(undefined, requestConfig);
+        }
+        if (error instanceof SyntaxError) {
+          throw AxiosCloneError.from(error, AxiosCloneError.ERR_BAD_RESPONSE, requestConfig);
+        }
+        // HTTP errors are final; only dropped connections are worth reconnecting
+        if (!isEventStream || attempt >= maxRetries || (isAxiosCloneError(error) && error.response)) {
+          throw AxiosCloneError.from(error, AxiosCloneError.ERR_NETWORK, requestConfig);
+        }
+      }
+
+      if (attempt >= maxRetries) return;
+      await this.wait(state.retry ?? reconnectOptions.delay ?? 3000, requestConfig as RequestConfig);
+    }
+  }
+
+  postForm<T>(url: string, data: any, config: Omit<RequestConfig<T>, 'method' | 'url' | 'data'> = {}): Promise<Response<T>> {
+    return this.request<T>({ ...config, method: 'POST', url, data, headers: this.formHeaders(config.headers) });
+  }
+
+  putForm<T>(url: string, data: any, config: Omit<RequestConfig<T>, 'method' | 'url' | 'data'> = {}): Promise<Response<T>> {
+    return this.request<T>({ ...config, method: 'PUT', url, data, headers: this.formHeaders(config.headers) });
+  }
+
+  patchForm<T>(url: string, data: any, config: Omit<RequestConfig<T>, 'method' | 'url' | 'data'> = {}): Promise<Response<T>> {
+    return this.request<T>({ ...config, method: 'PATCH', url, data, headers: this.formHeaders(config.headers) });
+  }
+
+  // Defaults form helpers to multipart unless the caller asked for urlencoded
+  private formHeaders(headers: Record<string, string> = {}): Record<string, string> {
+    const formHeaders = { ...headers };
+    if (!getHeader(formHeaders, 'Content-Type')) {
+      setHeader(formHeaders, 'Content-Type', 'multipart/form-data');
+    }
+    return formHeaders;
+  }
+
+  options<T>(url: string, config: Omit<RequestConfig<T>, 'method' | 'url'> = {}): Promise<Response<T>> {
     return this.request<T>({ ...config, method: 'OPTIONS', url });
   }
 }
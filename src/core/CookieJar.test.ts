@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test';
+import { createMockClient } from '../testUtils';
+import { CookieJar } from './CookieJar';
+import { getHeader } from './headers';
+
+describe('CookieJar', () => {
+  test('scopes cookies to their host, domain and path', () => {
+    const jar = new CookieJar();
+    jar.setCookie('host=1', 'http://api.example.com/');
+    jar.setCookie('shared=2; Domain=example.com', 'http://api.example.com/');
+    jar.setCookie('admin=3; Path=/admin', 'http://api.example.com/');
+
+    expect(jar.getCookieString('http://api.example.com/admin/users')).toBe('admin=3; host=1; shared=2');
+    expect(jar.getCookieString('http://www.example.com/')).toBe('shared=2');
+    expect(jar.getCookieString('http://other.test/')).toBe('');
+  });
+
+  test('refuses cookies for unrelated domains and insecure Secure cookies', () => {
+    const jar = new CookieJar();
+    expect(jar.setCookie('a=1; Domain=evil.test', 'http://api.example.com/')).toBeUndefined();
+    expect(jar.setCookie('b=1; Domain=com', 'http://example.com/')).toBeUndefined();
+    expect(jar.setCookie('c=1; Secure', 'http://example.com/')).toBeUndefined();
+    expect(jar.setCookie('d=1; Secure', 'https://example.com/')).toBeDefined();
+    expect(jar.getCookieString('http://example.com/')).toBe('');
+    expect(jar.getCookieString('https://example.com/')).toBe('d=1');
+  });
+
+  test('expires and deletes cookies', () => {
+    const jar = new CookieJar();
+    jar.setCookie('session=1', 'http://example.com/');
+    jar.setCookie('gone=1; Max-Age=0', 'http://example.com/');
+    jar.setCookie('session=1; Expires=Thu, 01 Jan 1970 00:00:00 GMT', 'http://example.com/');
+    expect(jar.getCookieString('http://example.com/')).toBe('');
+  });
+
+  test('holds back SameSite cookies on cross-site requests', () => {
+    const jar = new CookieJar();
+    jar.setCookie('strict=1; SameSite=Strict', 'http://example.com/');
+    jar.setCookie('lax=1', 'http://example.com/');
+
+    const crossSite = { initiator: 'http://other.test' };
+    expect(jar.getCookieString('http://example.com/', { ...crossSite, method: 'GET' })).toBe('lax=1');
+    expect(jar.getCookieString('http://example.com/', { ...crossSite, method: 'POST' })).toBe('');
+    expect(jar.getCookieString('http://example.com/', { initiator: 'http://www.example.com', method: 'POST' })).toBe(
+      'strict=1; lax=1'
+    );
+  });
+
+  test('survives a JSON round trip', () => {
+    const jar = new CookieJar();
+    jar.setCookie('a=1; Max-Age=60', 'http://example.com/');
+    expect(CookieJar.fromJSON(JSON.stringify(jar)).getCookieString('http://example.com/')).toBe('a=1');
+  });
+});
+
+describe('cookie jar in the client', () => {
+  const createJarClient = () => {
+    const jar = new CookieJar();
+    return { jar, ...createMockClient({ jar, withCredentials: true }) };
+  };
+
+  test('stores Set-Cookie and sends it back only with withCredentials', async () => {
+    const { client, mock } = createJarClient();
+    mock.onPost('/login').reply(204, null, { 'Set-Cookie': 'sid=abc; Path=/' });
+    mock.onGet('/me').reply((config) => [200, getHeader(config.headers, 'Cookie') ?? 'none']);
+
+    await client.post('/login', {});
+    expect((await client.get('/me')).data).toBe('sid=abc');
+    expect((await client.get('/me', { withCredentials: false })).data).toBe('none');
+  });
+
+  test('stores cookies from every redirect hop and sends them on the next', async () => {
+    const { client, mock, jar } = createJarClient();
+    mock.onPost('/login').reply(302, null, { Location: '/home', 'Set-Cookie': 'sid=abc' });
+    mock.onGet('/home').reply((config) => [200, { cookie: getHeader(config.headers, 'Cookie') }]);
+
+    const response = await client.post('/login', { user: 'ada' });
+    expect(response.data).toEqual({ cookie: 'sid=abc' });
+    // The 302 turned the POST into a body-less GET
+    expect(mock.history.map((config) => [config.method, config.data])).toEqual([
+      ['POST', '{"user":"ada"}'],
+      ['GET', undefined],
+    ]);
+    expect(jar.getCookieString('http://api.test/')).toBe('sid=abc');
+  });
+
+  test('drops caller credentials when a redirect leaves the origin', async () => {
+    const { client, mock, jar } = createJarClient();
+    jar.setCookie('theirs=1', 'http://evil.test/');
+    mock.onGet('/go').reply(302, null, { Location: 'http://evil.test/collect' });
+    mock.onGet('http://evil.test/collect').reply((config) => [
+      200,
+      {
+        cookie: getHeader(config.headers, 'Cookie') ?? null,
+        authorization: getHeader(config.headers, 'Authorization') ?? null,
+        proxy: getHeader(config.headers, 'Proxy-Authorization') ?? null,
+      },
+    ]);
+
+    const response = await client.get('/go', {
+      headers: { Cookie: 'session=secret', Authorization: 'Bearer t', 'Proxy-Authorization': 'Basic p' },
+    });
+    expect(response.data).toEqual({ cookie: 'theirs=1', authorization: null, proxy: null });
+    expect(getHeader(mock.history[0].headers, 'Cookie')).toBe('session=secret');
+  });
+
+  test('stops after maxRedirects and returns the last redirect', async () => {
+    const { client, mock } = createJarClient();
+    mock.onGet('/loop').reply(302, null, { Location: '/loop' });
+
+    const response = await client.get('/loop', { maxRedirects: 2, validateStatus: null });
+    expect(response.status).toBe(302);
+    expect(mock.history).toHaveLength(3);
+  });
+});
@@ -0,0 +1,170 @@
+export interface Cookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  // Absolute expiry in ms since the epoch; session cookies have none
+  expires?: number;
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: 'Strict' | 'Lax' | 'None';
+  // Set without a Domain attribute, so only sent back to the exact host
+  hostOnly: boolean;
+  creation: number;
+}
+
+export interface SerializedCookieJar {
+  version: 1;
+  cookies: Cookie[];
+}
+
+export interface CookieRequestContext {
+  method?: string;
+  // URL or origin of whatever initiated the request, used for SameSite checks
+  initiator?: string;
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || (host.endsWith(`.${domain}`) && !/^\d+\.\d+\.\d+\.\d+$/.test(host));
+}
+
+// RFC 6265 5.1.4: the directory of the request path
+function defaultPath(pathname: string): string {
+  if (!pathname.startsWith('/')) return '/';
+  const lastSlash = pathname.lastIndexOf('/');
+  return lastSlash <= 0 ? '/' : pathname.slice(0, lastSlash);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true;
+  if (!requestPath.startsWith(cookiePath)) return false;
+  return cookiePath.endsWith('/') || requestPath[cookiePath.length] === '/';
+}
+
+// Rough registrable-domain comparison (last two labels); there is no public suffix list here
+function siteOf(host: string): string {
+  return host.split('.').slice(-2).join('.');
+}
+
+export class CookieJar {
+  private cookies: Cookie[] = [];
+
+  setCookie(header: string, url: string): Cookie | undefined {
+    const { hostname, pathname, protocol } = new URL(url);
+    const host = hostname.toLowerCase();
+    const [pair, ...attributes] = header.split(';');
+    const separator = pair.indexOf('=');
+    if (separator <= 0) return undefined;
+
+    const now = Date.now();
+    const cookie: Cookie = {
+      name: pair.slice(0, separator).trim(),
+      value: pair.slice(separator + 1).trim().replace(/^"(.*)"$/, '$1'),
+      domain: host,
+      path: defaultPath(pathname),
+      secure: false,
+      httpOnly: false,
+      hostOnly: true,
+      creation: now,
+    };
+
+    let maxAge: number | undefined;
+    for (const attribute of attributes) {
+      const [rawKey, ...rest] = attribute.split('=');
+      const key = rawKey.trim().toLowerCase();
+      const value = rest.join('=').trim();
+
+      if (key === 'domain' && value) {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        // Refuse cookies for unrelated hosts or bare top-level domains
+        if (!domainMatches(host, domain) || (!domain.includes('.') && domain !== host)) return undefined;
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+      } else if (key === 'path' && value.startsWith('/')) {
+        cookie.path = value;
+      } else if (key === 'expires') {
+        const expires = Date.parse(value);
+        if (!Number.isNaN(expires)) cookie.expires = expires;
+      } else if (key === 'max-age' && /^-?\d+$/.test(value)) {
+        maxAge = Number(value);
+      } else if (key === 'secure') {
+        cookie.secure = true;
+      } else if (key === 'httponly') {
+        cookie.httpOnly = true;
+      } else if (key === 'samesite') {
+        const sameSite = value.toLowerCase();
+        cookie.sameSite = sameSite === 'strict' ? 'Strict' : sameSite === 'none' ? 'None' : 'Lax';
+      }
+    }
+
+    // Max-Age wins over Expires
+    if (maxAge !== undefined) {
+      cookie.expires = now + maxAge * 1000;
+    }
+    if (cookie.sameSite === 'None' && !cookie.secure) return undefined;
+    if (cookie.secure && protocol !== 'https:') return undefined;
+
+    const existing = this.cookies.findIndex(
+      (c) => c.name === cookie.name && c.domain === cookie.domain && c.path === cookie.path
+    );
+    if (existing !== -1) {
+      cookie.creation = this.cookies[existing].creation;
+      this.cookies.splice(existing, 1);
+    }
+
+    // An expiry in the past is how servers delete cookies
+    if (cookie.expires !== undefined && cookie.expires <= now) return undefined;
+
+    this.cookies.push(cookie);
+    return cookie;
+  }
+
+  setCookies(headers: string[], url: string): void {
+    for (const header of headers) {
+      this.setCookie(header, url);
+    }
+  }
+
+  getCookies(url: string, context: CookieRequestContext = {}): Cookie[] {
+    const { hostname, pathname, protocol } = new URL(url);
+    const host = hostname.toLowerCase();
+    const now = Date.now();
+    this.cookies = this.cookies.filter((cookie) => cookie.expires === undefined || cookie.expires > now);
+
+    const crossSite = context.initiator ? siteOf(new URL(context.initiator).hostname) !== siteOf(host) : false;
+    const safeMethod = ['GET', 'HEAD', 'OPTIONS'].includes((context.method || 'GET').toUpperCase());
+
+    return this.cookies
+      .filter((cookie) => {
+        if (cookie.hostOnly ? host !== cookie.domain : !domainMatches(host, cookie.domain)) return false;
+        if (!pathMatches(pathname || '/', cookie.path)) return false;
+        if (cookie.secure && protocol !== 'https:') return false;
+        if (crossSite && cookie.sameSite === 'Strict') return false;
+        if (crossSite && (cookie.sameSite ?? 'Lax') === 'Lax' && !safeMethod) return false;
+        return true;
+      })
+      .sort((a, b) => b.path.length - a.path.length || a.creation - b.creation);
+  }
+
+  getCookieString(url: string, context?: CookieRequestContext): string {
+    return this.getCookies(url, context)
+      .map((cookie) => `${cookie.name}=${cookie.value}`)
+      .join('; ');
+  }
+
+  removeAllCookies(): void {
+    this.cookies = [];
+  }
+
+  toJSON(): SerializedCookieJar {
+    return { version: 1, cookies: this.cookies.map((cookie) => ({ ...cookie })) };
+  }
+
+  static fromJSON(json: string | SerializedCookieJar): CookieJar {
+    const data: SerializedCookieJar = typeof json === 'string' ? JSON.parse(json) : json;
+    const jar = new CookieJar();
+    const now = Date.now();
+    jar.cookies = (data.cookies || []).filter((cookie) => cookie.expires === undefined || cookie.expires > now);
+    return jar;
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, expect, test } from 'bun:test';
+import { createMockClient, sleep } from '../testUtils';
+import { getHeader } from './headers';
+
+const createClient = () => createMockClient({ cache: true }, { mock: { delayResponse: 10 } });
+
+describe('HttpCache', () => {
+  test('merges identical concurrent requests into one', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/profile').reply(200, { name: 'ada' }, { 'Cache-Control': 'no-cache' });
+
+    const [a, b] = await Promise.all([
+      client.get<{ name: string }>('/profile'),
+      client.get<{ name: string }>('/profile'),
+    ]);
+    expect(mock.history).toHaveLength(1);
+    expect(a.data).toEqual({ name: 'ada' });
+    expect(b.data).toEqual({ name: 'ada' });
+
+    // Each caller gets its own copy
+    a.data.name = 'changed';
+    expect(b.data.name).toBe('ada');
+  });
+
+  test('keeps requests with different headers apart', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/me').reply((config) => [200, { user: getHeader(config.headers, 'Authorization') }, { Vary: 'Authorization' }]);
+
+    const [alice, bob] = await Promise.all([
+      client.get('/me', { headers: { Authorization: 'alice' } }),
+      client.get('/me', { headers: { Authorization: 'bob' } }),
+    ]);
+    expect(mock.history).toHaveLength(2);
+    expect(alice.data).toEqual({ user: 'alice' });
+    expect(bob.data).toEqual({ user: 'bob' });
+  });
+
+  test('lets one caller cancel without failing the others', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/slow').reply(200, 'shared');
+
+    const controller = new AbortController();
+    const cancelled = client.get('/slow', { signal: controller.signal });
+    const kept = client.get('/slow');
+    controller.abort();
+
+    await expect(cancelled).rejects.toMatchObject({ code: 'ERR_CANCELED' });
+    expect((await kept).data).toBe('shared');
+  });
+
+  test('serves fresh entries without a request', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/config').reply(200, { v: 1 }, { 'Cache-Control': 'max-age=60' });
+
+    const first = await client.get('/config');
+    const second = await client.get('/config');
+    expect(mock.history).toHaveLength(1);
+    expect(first.cached).toBe(false);
+    expect(second.cached).toBe(true);
+    expect(second.data).toEqual({ v: 1 });
+  });
+
+  test('revalidates stale entries with their validators', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/doc').replyOnce(200, { v: 1 }, { ETag: '"v1"', 'Cache-Control': 'max-age=0' });
+    mock.onGet('/doc').reply((config) =>
+      getHeader(config.headers, 'If-None-Match') === '"v1"' ? [304, null, { 'Cache-Control': 'max-age=60' }] : [200, { v: 2 }]
+    );
+
+    await client.get('/doc');
+    await sleep(5);
+    const revalidated = await client.get('/doc');
+    expect(mock.history).toHaveLength(2);
+    expect(revalidated.status).toBe(200);
+    expect(revalidated.cached).toBe(true);
+    expect(revalidated.data).toEqual({ v: 1 });
+
+    // The 304 refreshed the entry
+    await client.get('/doc');
+    expect(mock.history).toHaveLength(2);
+  });
+
+  test('keeps response types apart', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/x').reply(200, { id: 1 }, { 'Cache-Control': 'max-age=60' });
+
+    const [text, parsed] = await Promise.all([client.get('/x', { responseType: 'text' }), client.get('/x')]);
+    const buffer = await client.get<ArrayBuffer>('/x', { responseType: 'arraybuffer' });
+    expect(text.data).toBe('{"id":1}');
+    expect(parsed.data).toEqual({ id: 1 });
+    expect(buffer.data).toBeInstanceOf(ArrayBuffer);
+    expect(mock.history).toHaveLength(3);
+
+    // Each response type now has its own fresh entry
+    expect((await client.get('/x')).data).toEqual({ id: 1 });
+    expect(mock.history).toHaveLength(3);
+  });
+
+  test('does not merge requests with different response transforms', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/x').reply(200, { id: 1 }, { 'Cache-Control': 'no-cache' });
+
+    const [plain, counted] = await Promise.all([
+      client.get('/x'),
+      client.get('/x', { transformResponse: [(data: string) => data.length] }),
+    ]);
+    expect(plain.data).toEqual({ id: 1 });
+    expect(counted.data).toBe(8);
+    expect(mock.history).toHaveLength(2);
+  });
+
+  test('bypasses the cache for no-store requests', async () => {
+    const { client, mock } = createClient();
+    mock.onGet('/live').reply(200, 'now', { 'Cache-Control': 'max-age=60' });
+
+    await client.get('/live', { headers: { 'Cache-Control': 'no-store' } });
+    await client.get('/live', { headers: { 'Cache-Control': 'no-store' } });
+    expect(mock.history).toHaveLength(2);
+  });
+});
@@ -0,0 +1,260 @@
+import type { CacheEntry, CacheStorage, RequestConfig, Response } from '../types';
+import { CanceledError } from '../types';
+import { buildFullPath } from './buildFullPath';
+import { buildURL } from './buildURL';
+import { getHeader, setHeader } from './headers';
+
+// Least-recently-used in-memory storage; Map iteration order doubles as recency order
+export class MemoryCacheStorage implements CacheStorage {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries = 100) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+function parseCacheControl(value: string | null | undefined): Record<string, string | true> {
+  const directives: Record<string, string | true> = {};
+  if (!value) return directives;
+  for (const part of value.split(',')) {
+    const [name, arg] = part.trim().split('=');
+    if (name) directives[name.toLowerCase()] = arg ? arg.replace(/^"|"$/g, '') : true;
+  }
+  return directives;
+}
+
+// Callers stay isolated: mutating returned data must not change the cache or other callers' results
+function copyData<T>(data: T): T {
+  if (data === null || typeof data !== 'object') return data;
+  try {
+    return structuredClone(data);
+  } catch {
+    return data;
+  }
+}
+
+interface InflightRequest {
+  promise: Promise<Response<any>>;
+  controller: AbortController;
+  waiters: number;
+}
+
+export class HttpCache {
+  private inflight = new Map<string, InflightRequest>();
+  private transformIds = new WeakMap<object, number>();
+  private nextTransformId = 0;
+  readonly storage: CacheStorage;
+
+  constructor(storage: CacheStorage = new MemoryCacheStorage()) {
+    this.storage = storage;
+  }
+
+  static isEnabled(config: RequestConfig): boolean {
+    return !!config.cache && (config.method || 'GET').toUpperCase() === 'GET' && config.responseType !== 'stream';
+  }
+
+  async handle<T>(config: RequestConfig, send: (config: RequestConfig) => Promise<Response<T>>): Promise<Response<T>> {
+    const key = this.keyFor(config);
+    const dedupeKey = this.dedupeKeyFor(key, config);
+
+    let shared = dedupeKey === undefined ? undefined : this.inflight.get(dedupeKey);
+    if (!shared || shared.controller.signal.aborted) {
+      // The shared request is only aborted once every waiting caller has given up
+      const controller = new AbortController();
+      const entry: InflightRequest = {
+        promise: this.lookup(key, { ...config, signal: controller.signal }, send).finally(() => {
+          if (dedupeKey !== undefined && this.inflight.get(dedupeKey) === entry) this.inflight.delete(dedupeKey);
+        }),
+        controller,
+        waiters: 0,
+      };
+      shared = entry;
+      if (dedupeKey !== undefined) this.inflight.set(dedupeKey, shared);
+    }
+
+    const response = await this.waitFor(shared, config);
+    return { ...response, config, data: copyData(response.data) };
+  }
+
+  private waitFor(shared: InflightRequest, config: RequestConfig): Promise<Response<any>> {
+    const { signal } = config;
+    if (signal?.aborted) {
+      return Promise.reject(new CanceledError(undefined, config));
+    }
+
+    shared.waiters++;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        if (--shared.waiters === 0) shared.controller.abort(signal?.reason);
+        reject(new CanceledError(undefined, config));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      shared.promise.then(
+        (response) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(response);
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private async lookup<T>(
+    key: string,
+    config: RequestConfig,
+    send: (config: RequestConfig) => Promise<Response<T>>
+  ): Promise<Response<T>> {
+    const storage = this.storageFor(config);
+    const requestDirectives = parseCacheControl(getHeader(config.headers, 'Cache-Control'));
+    if (requestDirectives['no-store']) {
+      return send(config);
+    }
+
+    let entry = await storage.get(key);
+    if (entry && !this.varyMatches(entry, config)) {
+      entry = undefined;
+    }
+
+    if (entry && !requestDirectives['no-cache'] && entry.expires > Date.now()) {
+      return this.fromEntry<T>(entry, config);
+    }
+
+    let revalidating = config;
+    if (entry && (entry.etag || entry.lastModified)) {
+      const headers = { ...config.headers };
+      if (entry.etag) setHeader(headers, 'If-None-Match', entry.etag);
+      if (entry.lastModified) setHeader(headers, 'If-Modified-Since', entry.lastModified);
+      const { validateStatus } = config;
+      revalidating = {
+        ...config,
+        headers,
+        validateStatus: (status) => status === 304 || !validateStatus || validateStatus(status),
+      };
+    }
+
+    const response = await send(revalidating);
+
+    if (response.status === 304 && entry) {
+      const refreshed = { ...entry, expires: this.expiresAt(response.headers, config) };
+      await storage.set(key, refreshed);
+      return this.fromEntry<T>(refreshed, config);
+    }
+
+    await this.store(key, config, response);
+    return { ...response, cached: false };
+  }
+
+  private async store(key: string, config: RequestConfig, response: Response<any>): Promise<void> {
+    const storage = this.storageFor(config);
+    const directives = parseCacheControl(response.headers.get('Cache-Control'));
+    const vary = response.headers.get('Vary');
+
+    if (response.status !== 200 || directives['no-store'] || vary?.trim() === '*') {
+      await storage.delete(key);
+      return;
+    }
+
+    const varyHeaders: Record<string, string> = {};
+    for (const name of (vary || '').split(',').map((h) => h.trim()).filter(Boolean)) {
+      varyHeaders[name.toLowerCase()] = getHeader(config.headers, name) ?? '';
+    }
+
+    const headers: [string, string][] = [];
+    response.headers.forEach((value, name) => headers.push([name, value]));
+
+    await storage.set(key, {
+      data: response.data,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      expires: this.expiresAt(response.headers, config),
+      etag: response.headers.get('ETag') ?? undefined,
+      lastModified: response.headers.get('Last-Modified') ?? undefined,
+      varyHeaders,
+    });
+  }
+
+  // Per-request ttl wins, then max-age, then Expires; no-cache entries are stored already stale
+  private expiresAt(headers: Headers, config: RequestConfig): number {
+    const now = Date.now();
+    const directives = parseCacheControl(headers.get('Cache-Control'));
+    if (directives['no-cache']) return now;
+
+    const ttl = typeof config.cache === 'object' ? config.cache.ttl : undefined;
+    if (ttl !== undefined) return now + ttl;
+
+    const maxAge = Number(directives['max-age']);
+    if (!Number.isNaN(maxAge)) return now + maxAge * 1000;
+
+    const expires = Date.parse(headers.get('Expires') ?? '');
+    return Number.isNaN(expires) ? now : expires;
+  }
+
+  private varyMatches(entry: CacheEntry, config: RequestConfig): boolean {
+    return Object.entries(entry.varyHeaders).every(
+      ([name, value]) => (getHeader(config.headers, name) ?? '') === value
+    );
+  }
+
+  private fromEntry<T>(entry: CacheEntry, config: RequestConfig): Response<T> {
+    return {
+      data: entry.data,
+      status: entry.status,
+      statusText: entry.statusText,
+      headers: new Headers(entry.headers),
+      config,
+      cached: true,
+    };
+  }
+
+  private storageFor(config: RequestConfig): CacheStorage {
+    return (typeof config.cache === 'object' && config.cache.storage) || this.storage;
+  }
+
+  // Requests only merge when their headers and response transforms match, so credentials, Vary'd
+  // headers and response shapes never cross callers. Requests carrying a body are never merged.
+  private dedupeKeyFor(key: string, config: RequestConfig): string | undefined {
+    if (config.data !== undefined) return undefined;
+
+    const headers = Object.entries(config.headers ?? {})
+      .map(([name, value]) => [name.toLowerCase(), String(value)])
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    const transforms = ([] as object[]).concat(config.transformResponse ?? []).map((transform) => {
+      if (!this.transformIds.has(transform)) this.transformIds.set(transform, this.nextTransformId++);
+      return this.transformIds.get(transform);
+    });
+    return `${key} ${JSON.stringify([headers, transforms])}`;
+  }
+
+  // The response type is part of the key: one URL read as text and as JSON gives different data
+  private keyFor(config: RequestConfig): string {
+    const url = buildURL(buildFullPath(config.baseURL, config.url ?? ''), config.params, config.paramsSerializer);
+    return `${(config.method || 'GET').toUpperCase()} ${url} ${config.responseType ?? 'auto'}`;
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import { createMockClient } from '../testUtils';
+import { getHeader } from './headers';
+
+describe('interceptors', () => {
+  test('run request interceptors last-added first and response interceptors in order', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/x').reply(200, 'ok');
+    const seen: string[] = [];
+    client.interceptors.request.use((config) => (seen.push('request 1'), config));
+    client.interceptors.request.use((config) => (seen.push('request 2'), config));
+    client.interceptors.response.use((response) => (seen.push('response 1'), response));
+    client.interceptors.response.use((response) => (seen.push('response 2'), response));
+
+    await client.get('/x');
+    expect(seen).toEqual(['request 2', 'request 1', 'response 1', 'response 2']);
+  });
+
+  test('may be async and change the config and response', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/x').reply((config) => [200, { token: getHeader(config.headers, 'X-Token') }]);
+    client.interceptors.request.use(async (config) => ({ ...config, headers: { ...config.headers, 'X-Token': 'abc' } }));
+    client.interceptors.response.use(async (response) => ({ ...response, data: { wrapped: response.data } }));
+
+    expect((await client.get('/x')).data).toEqual({ wrapped: { token: 'abc' } });
+  });
+
+  test('stop running once ejected', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/x').reply(200, 'ok');
+    let calls = 0;
+    const id = client.interceptors.request.use((config) => (calls++, config));
+
+    await client.get('/x');
+    client.interceptors.request.eject(id);
+    await client.get('/x');
+    expect(calls).toBe(1);
+  });
+
+  test('skip request interceptors whose runWhen returns false', async () => {
+    const { client, mock } = createMockClient();
+    mock.onAny().reply(200, 'ok');
+    const seen: string[] = [];
+    client.interceptors.request.use((config) => (seen.push(config.method!), config), null, {
+      runWhen: (config) => config.method === 'POST',
+    });
+
+    await client.get('/x');
+    await client.post('/x', {});
+    expect(seen).toEqual(['POST']);
+  });
+
+  test('let response error handlers recover or rethrow', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/missing').reply(404);
+    mock.onGet('/broken').reply(400);
+    client.interceptors.response.use(null, (error) => {
+      if (error.response?.status === 404) return { ...error.response, data: 'fallback' };
+      throw error;
+    });
+
+    expect((await client.get('/missing')).data).toBe('fallback');
+    await expect(client.get('/broken')).rejects.toMatchObject({ status: 400 });
+  });
+
+  test('reject without sending when a request interceptor throws', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/x').reply(200, 'ok');
+    client.interceptors.request.use(() => {
+      throw new Error('no token');
+    });
+
+    await expect(client.get('/x')).rejects.toThrow('no token');
+    expect(mock.history).toHaveLength(0);
+  });
+});
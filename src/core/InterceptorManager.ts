@@ -0,0 +1,35 @@
+import type { Interceptor, InterceptorOptions } from '../types';
+
+export class InterceptorManager<V> {
+  private handlers: Array<Interceptor<V> | null> = [];
+
+  // Returns an id that can later be passed to `eject`
+  use(
+    onFulfilled?: ((value: V) => V | Promise<V>) | null,
+    onRejected?: ((error: any) => any) | null,
+    options: InterceptorOptions = {}
+  ): number {
+    this.handlers.push({
+      fulfilled: onFulfilled ?? undefined,
+      rejected: onRejected ?? undefined,
+      runWhen: options.runWhen,
+    });
+    return this.handlers.length - 1;
+  }
+
+  eject(id: number): void {
+    if (this.handlers[id]) {
+      this.handlers[id] = null;
+    }
+  }
+
+  clear(): void {
+    this.handlers = [];
+  }
+
+  forEach(fn: (interceptor: Interceptor<V>) => void): void {
+    for (const handler of this.handlers) {
+      if (handler) fn(handler);
+    }
+  }
+}
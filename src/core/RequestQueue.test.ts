@@ -0,0 +1,85 @@
+import { describe, expect, test } from 'bun:test';
+import { createMockClient, sleep } from '../testUtils';
+
+describe('RequestQueue', () => {
+  test('never runs more than maxConcurrent requests at once', async () => {
+    const { client, mock } = createMockClient({ maxConcurrent: 2 });
+    let running = 0;
+    let peak = 0;
+    mock.onGet('/work').reply(async () => {
+      peak = Math.max(peak, ++running);
+      await sleep(20);
+      running--;
+      return [200, 'done'];
+    });
+
+    await Promise.all(Array.from({ length: 5 }, () => client.get('/work')));
+    expect(peak).toBe(2);
+    expect(client.getQueueStats()).toMatchObject({ active: 0, queued: 0, processed: 5 });
+  });
+
+  test('starts higher priorities first', async () => {
+    const { client, mock } = createMockClient({ maxConcurrent: 1 });
+    const order: string[] = [];
+    mock.onGet(/.*/).reply(async (config) => {
+      order.push(new URL(config.url).pathname);
+      await sleep(5);
+      return [200, null];
+    });
+
+    await Promise.all([
+      client.get('/first'),
+      client.get('/low', { priority: -1 }),
+      client.get('/high', { priority: 5 }),
+      client.get('/normal'),
+    ]);
+    expect(order).toEqual(['/first', '/high', '/normal', '/low']);
+  });
+
+  test('queues retry attempts against the rate limit', async () => {
+    const { client, mock } = createMockClient({ maxRequestsPerInterval: 2, interval: 100 });
+    const starts: number[] = [];
+    let flakyCalls = 0;
+    mock.onGet(/.*/).reply((config) => {
+      starts.push(performance.now());
+      return config.url.endsWith('/flaky') && ++flakyCalls < 3 ? [503] : [200, 'ok'];
+    });
+
+    const [flaky] = await Promise.all([client.get('/flaky'), client.get('/other'), client.get('/another')]);
+    expect(flaky.timings?.attempts).toBe(3);
+    expect(starts).toHaveLength(5);
+    expect(client.getQueueStats().processed).toBe(5);
+
+    // Any three consecutive attempts, retries included, span at least one interval
+    for (let i = 2; i < starts.length; i++) {
+      expect(starts[i] - starts[i - 2]).toBeGreaterThanOrEqual(95);
+    }
+  });
+
+  test('holds the slot of a streamed response until its body is consumed', async () => {
+    const { client, mock } = createMockClient({ maxConcurrent: 1 });
+    mock.onGet('/download').reply(200, 'streamed body');
+    mock.onGet('/next').reply(200, 'next');
+
+    const response = await client.get<ReadableStream<Uint8Array>>('/download', { responseType: 'stream' });
+    expect(client.getQueueStats().active).toBe(1);
+
+    let nextDone = false;
+    const next = client.get('/next').then(() => (nextDone = true));
+    await sleep(10);
+    expect(nextDone).toBe(false);
+
+    expect(await new Response(response.data).text()).toBe('streamed body');
+    await next;
+    expect(client.getQueueStats().active).toBe(0);
+  });
+
+  test('frees the slot of a cancelled stream', async () => {
+    const { client, mock } = createMockClient({ maxConcurrent: 1 });
+    mock.onGet('/download').reply(200, 'streamed body');
+
+    const response = await client.get<ReadableStream<Uint8Array>>('/download', { responseType: 'stream' });
+    await response.data.cancel();
+    expect(client.getQueueStats().active).toBe(0);
+  });
+});
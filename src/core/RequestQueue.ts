@@ -0,0 +1,156 @@
+import type { QueueOptions, QueueStats, RequestConfig } from '../types';
+import { AxiosCloneError, CanceledError } from '../types';
+
+interface QueuedTask {
+  priority: number;
+  sequence: number;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+// Gates request starts on a concurrency cap and a sliding-window rate limit.
+// Higher priorities go first; equal priorities are released FIFO.
+export class RequestQueue {
+  private queue: QueuedTask[] = [];
+  private active = 0;
+  private sequence = 0;
+  private startTimes: number[] = [];
+  private drainTimer?: ReturnType<typeof setTimeout>;
+  private processed = 0;
+  private totalWait = 0;
+  private maxWait = 0;
+
+  constructor(private options: QueueOptions = {}) {}
+
+  get enabled(): boolean {
+    return !!(this.options.maxConcurrent || this.options.maxRequestsPerInterval);
+  }
+
+  // `hold` keeps the concurrency slot after the task settles; call the returned function to free it
+  schedule<T>(config: RequestConfig, task: (waited: number, hold: () => () => void) => Promise<T>): Promise<T> {
+    if (!this.enabled) return task(0, () => () => {});
+
+    const { signal, timeout, priority = 0 } = config;
+    if (signal?.aborted) return Promise.reject(new CanceledError(undefined, config));
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const entry: QueuedTask = {
+        priority,
+        sequence: this.sequence++,
+        enqueuedAt: performance.now(),
+        start: () => {
+          cleanup();
+          const waited = performance.now() - entry.enqueuedAt;
+          this.processed++;
+          this.totalWait += waited;
+          this.maxWait = Math.max(this.maxWait, waited);
+
+          this.active++;
+          let held = false;
+          let released = false;
+          const release = () => {
+            if (released) return;
+            released = true;
+            this.active--;
+            this.drain();
+          };
+          const hold = () => {
+            held = true;
+            return release;
+          };
+          task(waited, hold)
+            .then(resolve, reject)
+            .finally(() => {
+              if (!held) release();
+            });
+        },
+      };
+
+      const leave = (error: AxiosCloneError) => {
+        cleanup();
+        this.queue.splice(this.queue.indexOf(entry), 1);
+        reject(error);
+      };
+      const onAbort = () => leave(new CanceledError(undefined, config));
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      if (timeout) {
+        timer = setTimeout(
+          () => leave(new AxiosCloneError(`timeout of ${timeout}ms exceeded while queued`, AxiosCloneError.ERR_TIMEOUT, config)),
+          timeout
+        );
+      }
+
+      const index = this.queue.findIndex((queued) => queued.priority < priority);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+      this.drain();
+    });
+  }
+
+  stats(): QueueStats {
+    return {
+      active: this.active,
+      queued: this.queue.length,
+      processed: this.processed,
+      averageWait: this.processed ? this.totalWait / this.processed : 0,
+      maxWait: this.maxWait,
+    };
+  }
+
+  private drain(): void {
+    const { maxConcurrent, maxRequestsPerInterval, interval = 1000 } = this.options;
+
+    while (this.queue.length) {
+      if (maxConcurrent && this.active >= maxConcurrent) return;
+
+      if (maxRequestsPerInterval) {
+        const now = performance.now();
+        this.startTimes = this.startTimes.filter((time) => now - time < interval);
+        if (this.startTimes.length >= maxRequestsPerInterval) {
+          if (!this.drainTimer) {
+            const wait = interval - (now - this.startTimes[0]);
+            this.drainTimer = setTimeout(() => {
+              this.drainTimer = undefined;
+              this.drain();
+            }, wait);
+          }
+          return;
+        }
+        this.startTimes.push(now);
+      }
+
+      this.queue.shift()!.start();
+    }
+  }
+}
+
+// Calls `release` once the body has been read to the end, has failed or was cancelled
+export function releaseOnStreamEnd(stream: ReadableStream<Uint8Array>, release: () => void): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      release();
+      return reader.cancel(reason);
+    },
+  });
+}
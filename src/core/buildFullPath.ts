@@ -0,0 +1,16 @@
+const ABSOLUTE_URL = /^([a-z][a-z\d+\-.]*:)?\/\//i;
+
+export function isAbsoluteURL(url: string): boolean {
+  return ABSOLUTE_URL.test(url);
+}
+
+export function combineURLs(baseURL: string, relativeURL: string): string {
+  return relativeURL ? `${baseURL.replace(/\/+$/, '')}/${relativeURL.replace(/^\/+/, '')}` : baseURL;
+}
+
+export function buildFullPath(baseURL: string | undefined, requestedURL: string): string {
+  if (baseURL && !isAbsoluteURL(requestedURL)) {
+    return combineURLs(baseURL, requestedURL);
+  }
+  return requestedURL;
+}
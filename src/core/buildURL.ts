@@ -0,0 +1,79 @@
+import type { ParamsSerializerOptions } from '../types';
+
+// encodeURIComponent, but keeps the characters query strings conventionally leave readable
+export function encodeParam(value: string): string {
+  return encodeURIComponent(value)
+    .replace(/%3A/gi, ':')
+    .replace(/%24/g, '$')
+    .replace(/%2C/gi, ',')
+    .replace(/%20/g, '+')
+    .replace(/%5B/gi, '[')
+    .replace(/%5D/gi, ']');
+}
+
+function isPrimitive(value: unknown): boolean {
+  return value === null || value instanceof Date || typeof value !== 'object';
+}
+
+function stringify(value: unknown): string {
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+export function serializeParams(params: Record<string, any>, options: ParamsSerializerOptions = {}): string {
+  const { arrayFormat = 'repeat', encode = encodeParam } = options;
+  const parts: string[] = [];
+
+  const walk = (value: any, key: string) => {
+    if (value === undefined || value === null) return;
+
+    if (Array.isArray(value)) {
+      const items = value.filter((item) => item !== undefined && item !== null);
+      // Arrays of objects need positions to stay unambiguous, whatever the format
+      if (arrayFormat === 'indices' || !items.every(isPrimitive)) {
+        value.forEach((item, index) => walk(item, `${key}[${index}]`));
+      } else if (arrayFormat === 'comma') {
+        if (items.length) parts.push(`${encode(key)}=${items.map((item) => encode(stringify(item))).join(',')}`);
+      } else {
+        items.forEach((item) => walk(item, arrayFormat === 'brackets' ? `${key}[]` : key));
+      }
+    } else if (!isPrimitive(value)) {
+      for (const [childKey, childValue] of Object.entries(value)) {
+        walk(childValue, `${key}[${childKey}]`);
+      }
+    } else {
+      parts.push(`${encode(key)}=${encode(stringify(value))}`);
+    }
+  };
+
+  for (const [key, value] of Object.entries(params)) {
+    walk(value, key);
+  }
+  return parts.join('&');
+}
+
+export function buildURL(
+  url: string,
+  params?: Record<string, any> | URLSearchParams,
+  serializer?: ParamsSerializerOptions | ((params: Record<string, any>) => string)
+): string {
+  if (!params) return url;
+
+  let query: string;
+  if (params instanceof URLSearchParams) {
+    query = params.toString();
+  } else if (typeof serializer === 'function') {
+    query = serializer(params);
+  } else if (serializer?.serialize) {
+    query = serializer.serialize(params);
+  } else {
+    query = serializeParams(params, serializer);
+  }
+  if (!query) return url;
+
+  // Splice the query in before any fragment, extending an existing query string
+  const hashIndex = url.indexOf('#');
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const separator = !base.includes('?') ? '?' : /[?&]$/.test(base) ? '' : '&';
+  return `${base}${separator}${query}${hash}`;
+}
@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test';
+import { collect, createMockClient } from '../testUtils';
+import { getHeader } from './headers';
+import { parseNDJSON, parseServerSentEvents, readLines } from './eventStream';
+import type { SSEParseState } from './eventStream';
+
+const linesOf = async function* (lines: string[]) {
+  yield* lines;
+};
+
+// A body delivered in the given pieces, optionally failing after the last one
+const streamOf = (chunks: string[], failure?: Error) => {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]));
+      } else if (failure) {
+        controller.error(failure);
+      } else {
+        controller.close();
+      }
+    },
+  });
+};
+
+describe('readLines', () => {
+  test('splits on every line terminator, also across chunks', async () => {
+    const lines = await collect(readLines(streamOf(['a\r', '\nb\n', 'c\rd', '\re'])));
+    expect(lines).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  test('decodes multi-byte characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('€\n');
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.subarray(0, 1));
+        controller.enqueue(bytes.subarray(1));
+        controller.close();
+      },
+    });
+    expect(await collect(readLines(stream))).toEqual(['€']);
+  });
+});
+
+describe('parseServerSentEvents', () => {
+  test('builds events from fields and skips comments', async () => {
+    const state: SSEParseState = {};
+    const lines = linesOf([': ping', 'event: update', 'data: one', 'data:two', 'id: 7', 'retry: 50', '', 'data: plain', '']);
+    const events = await collect(parseServerSentEvents(lines, state));
+
+    expect(events).toEqual([
+      { event: 'update', data: 'one\ntwo', id: '7', retry: 50 },
+      { event: 'message', data: 'plain', id: '7', retry: 50 },
+    ]);
+    expect(state).toEqual({ lastEventId: '7', retry: 50 });
+  });
+
+  test('drops events without data', async () => {
+    const lines = linesOf(['event: empty', '', 'data: x', '']);
+    expect((await collect(parseServerSentEvents(lines, {}))).map((event) => event.data)).toEqual(['x']);
+  });
+});
+
+describe('parseNDJSON', () => {
+  test('parses one value per non-empty line', async () => {
+    expect(await collect(parseNDJSON(linesOf(['{"a":1}', '', '[2]'])))).toEqual([{ a: 1 }, [2]]);
+  });
+});
+
+describe('client.stream', () => {
+  const eventStream = { 'Content-Type': 'text/event-stream' };
+
+  test('yields server-sent events as they arrive', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/events').reply(() => [200, streamOf(['data: a\n\n', 'event: b\ndata: 2\n\n']), eventStream]);
+
+    const events = await collect(client.stream('/events'));
+    expect(events.map(({ event, data }) => [event, data])).toEqual([
+      ['message', 'a'],
+      ['b', '2'],
+    ]);
+    expect(getHeader(mock.history[0].headers, 'Accept')).toBe('text/event-stream');
+  });
+
+  test('picks NDJSON from the content type', async () => {
+    const { client, mock } = createMockClient();
+    const body = () => streamOf(['{"n":1}\n{"n"', ':2}\n']);
+    mock.onGet('/rows').reply(() => [200, body(), { 'Content-Type': 'application/x-ndjson' }]);
+
+    expect(await collect(client.stream<{ n: number }>('/rows'))).toEqual([{ n: 1 }, { n: 2 }]);
+  });
+
+  test('reconnects with Last-Event-ID after a dropped connection', async () => {
+    const { client, mock } = createMockClient();
+    const dropped = () => streamOf(['retry: 5\nid: 1\ndata: first\n\n'], new Error('reset'));
+    mock.onGet('/events').replyOnce(() => [200, dropped(), eventStream]);
+    mock.onGet('/events').replyOnce(() => [200, streamOf(['id: 2\ndata: second\n\n']), eventStream]);
+    mock.onGet('/events').reply(204);
+
+    const events = await collect(client.stream('/events', { reconnect: { maxRetries: 3 } }));
+    expect(events.map((event) => event.data)).toEqual(['first', 'second']);
+    expect(mock.history.map((config) => getHeader(config.headers, 'Last-Event-ID') ?? null)).toEqual([null, '1', '2']);
+  });
+
+  test('does not reconnect after an HTTP error', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/events').reply(401);
+
+    await expect(collect(client.stream('/events', { reconnect: true }))).rejects.toMatchObject({ status: 401 });
+    expect(mock.history).toHaveLength(1);
+  });
+});
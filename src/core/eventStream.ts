@@ -0,0 +1,78 @@
+import type { ServerSentEvent } from '../types';
+
+// Splits a byte stream into lines, accepting \n, \r\n and lone \r terminators
+export async function* readLines(stream: ReadableStream<Uint8Array>): AsyncGenerator<string, void, undefined> {
+  const reader = stream.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let match: RegExpExecArray | null;
+      while ((match = /\r\n|\n|\r/.exec(buffer))) {
+        // A trailing \r may be the first half of \r\n still in flight
+        if (match[0] === '\r' && match.index === buffer.length - 1) break;
+        yield buffer.slice(0, match.index);
+        buffer = buffer.slice(match.index + match[0].length);
+      }
+    }
+    if (buffer) yield buffer.replace(/\r$/, '');
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+export interface SSEParseState {
+  lastEventId?: string;
+  retry?: number;
+}
+
+// Implements the event-stream interpretation rules from the HTML spec.
+// `state` carries the last event id and reconnection delay across reconnects.
+export async function* parseServerSentEvents(
+  lines: AsyncIterable<string>,
+  state: SSEParseState
+): AsyncGenerator<ServerSentEvent, void, undefined> {
+  let event = '';
+  let data: string[] = [];
+
+  for await (const line of lines) {
+    if (line === '') {
+      if (data.length) {
+        yield { event: event || 'message', data: data.join('\n'), id: state.lastEventId, retry: state.retry };
+      }
+      event = '';
+      data = [];
+      continue;
+    }
+    if (line.startsWith(':')) continue;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        event = value;
+        break;
+      case 'data':
+        data.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) state.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) state.retry = Number(value);
+        break;
+    }
+  }
+}
+
+export async function* parseNDJSON<T>(lines: AsyncIterable<string>): AsyncGenerator<T, void, undefined> {
+  for await (const line of lines) {
+    if (line.trim()) yield JSON.parse(line) as T;
+  }
+}
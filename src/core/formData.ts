@@ -0,0 +1,53 @@
+type Append = (key: string, value: string | Blob) => void;
+
+function isFileLike(value: unknown): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
+
+// Walks nested objects/arrays, emitting `parent[child]` keys and `list[]` for arrays
+function flatten(value: any, key: string, append: Append): void {
+  if (value === undefined || value === null) return;
+
+  if (isFileLike(value)) {
+    append(key, value);
+  } else if (value instanceof Date) {
+    append(key, value.toISOString());
+  } else if (Array.isArray(value)) {
+    const primitives = value.every((item) => item === null || typeof item !== 'object' || isFileLike(item));
+    value.forEach((item, index) => flatten(item, primitives ? `${key}[]` : `${key}[${index}]`, append));
+  } else if (typeof value === 'object') {
+    for (const [childKey, childValue] of Object.entries(value)) {
+      flatten(childValue, key ? `${key}[${childKey}]` : childKey, append);
+    }
+  } else {
+    append(key, String(value));
+  }
+}
+
+export function toFormData(data: Record<string, any>, formData: FormData = new FormData()): FormData {
+  flatten(data, '', (key, value) => formData.append(key, value));
+  return formData;
+}
+
+export function toURLEncodedForm(data: Record<string, any>): URLSearchParams {
+  const params = new URLSearchParams();
+  flatten(data, '', (key, value) => {
+    if (isFileLike(value)) {
+      throw new TypeError(`Cannot send file field "${key}" as application/x-www-form-urlencoded`);
+    }
+    params.append(key, value);
+  });
+  return params;
+}
+
+// Bodies fetch can send untouched; they must not be JSON-encoded
+export function isRawBody(data: unknown): boolean {
+  return (
+    (typeof FormData !== 'undefined' && data instanceof FormData) ||
+    data instanceof URLSearchParams ||
+    isFileLike(data) ||
+    data instanceof ArrayBuffer ||
+    ArrayBuffer.isView(data) ||
+    (typeof ReadableStream !== 'undefined' && data instanceof ReadableStream)
+  );
+}
@@ -0,0 +1,44 @@
+import type { DefaultHeaders } from '../types';
+
+const HEADER_GROUPS = ['common', 'get', 'post', 'put', 'patch', 'delete', 'head', 'options'];
+
+// Header names are case-insensitive, so replace any existing spelling of `name`
+export function setHeader(headers: Record<string, string>, name: string, value: string): void {
+  removeHeader(headers, name);
+  headers[name] = value;
+}
+
+export function removeHeader(headers: Record<string, string>, name: string): void {
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === name.toLowerCase()) delete headers[key];
+  }
+}
+
+export function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  if (!headers) return undefined;
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : headers[key];
+}
+
+// Collapses `common` and the per-method group into a flat header map. Top-level headers win.
+export function flattenHeaders(headers: DefaultHeaders | undefined, method: string): Record<string, string> {
+  const flat: Record<string, string> = {};
+  if (!headers) return flat;
+
+  const sources = [headers.common, headers[method.toLowerCase()], headers];
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') continue;
+    for (const [key, value] of Object.entries(source)) {
+      if (typeof value === 'string' && !HEADER_GROUPS.includes(key)) {
+        setHeader(flat, key, value);
+      }
+    }
+  }
+  return flat;
+}
+
+// btoa only accepts Latin-1, so encode as UTF-8 bytes first
+export function encodeBasicAuth(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return btoa(String.fromCharCode(...bytes));
+}
@@ -0,0 +1,32 @@
+// Keys that only make sense for a single request and are never inherited from defaults
+const REQUEST_ONLY_KEYS = new Set(['url', 'method', 'data', 'signal']);
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+function deepMerge(target: Record<string, any>, source: Record<string, any>): Record<string, any> {
+  const result: Record<string, any> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    result[key] = isPlainObject(value) && isPlainObject(result[key]) ? deepMerge(result[key], value) : cloneValue(value);
+  }
+  return result;
+}
+
+function cloneValue(value: any): any {
+  if (isPlainObject(value)) return deepMerge({}, value);
+  if (Array.isArray(value)) return [...value];
+  return value;
+}
+
+// Deep-merges `config` on top of `defaults` without mutating either
+export function mergeConfig<A extends object, B extends object>(defaults: A, config: B = {} as B): A & B {
+  const base: Record<string, any> = {};
+  for (const [key, value] of Object.entries(defaults)) {
+    if (!REQUEST_ONLY_KEYS.has(key)) base[key] = cloneValue(value);
+  }
+  return deepMerge(base, config) as A & B;
+}
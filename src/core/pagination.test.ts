@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'bun:test';
+import { collect, createMockClient } from '../testUtils';
+import { cursorPagination, linkHeaderPagination, pageParamPagination, parseLinkHeader } from './pagination';
+
+const query = (url: string) => Object.fromEntries(new URL(url).searchParams);
+
+describe('parseLinkHeader', () => {
+  test('reads every relation, including space-separated ones', () => {
+    expect(parseLinkHeader('<https://a.test/2>; rel="next", <https://a.test/9>; rel="last prev"')).toEqual({
+      next: 'https://a.test/2',
+      last: 'https://a.test/9',
+      prev: 'https://a.test/9',
+    });
+    expect(parseLinkHeader(null)).toEqual({});
+  });
+});
+
+describe('linkHeaderPagination', () => {
+  test('follows rel="next" links relative to the current page', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/items?page=2').reply(200, [3]);
+    mock.onGet('/items').reply(200, { items: [1, 2] }, { Link: '</items?page=2>; rel="next"' });
+
+    expect(await collect(client.paginate('/items', {}, linkHeaderPagination()))).toEqual([1, 2, 3]);
+    expect(mock.history.map((config) => config.url)).toEqual(['http://api.test/items', 'http://api.test/items?page=2']);
+  });
+});
+
+describe('pageParamPagination', () => {
+  test('sends the start page and page size with the first request', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet(/\/items/).reply((config) => {
+      const { page, per_page } = query(config.url);
+      return [200, Number(page) < 3 ? Array(Number(per_page)).fill(page) : ['last']];
+    });
+
+    const items = await collect(
+      client.paginate('/items', {}, pageParamPagination({ startPage: 1, limit: 2, limitParam: 'per_page' }))
+    );
+    expect(items).toEqual(['1', '1', '2', '2', 'last']);
+    expect(mock.history.map((config) => query(config.url))).toEqual([
+      { page: '1', per_page: '2' },
+      { page: '2', per_page: '2' },
+      { page: '3', per_page: '2' },
+    ]);
+  });
+
+  test('keeps a page given by the caller and stops at totalPages', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet(/\/items/).reply((config) => [200, { data: [query(config.url).page], pages: 4 }]);
+
+    const strategy = pageParamPagination<string>({ totalPages: 'pages' });
+    expect(await collect(client.paginate('/items', { params: { page: 3 } }, strategy))).toEqual(['3', '4']);
+  });
+
+  test('stops on an empty page and honours maxPages', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet(/\/items/).reply((config) => [200, Number(query(config.url).page) < 4 ? [1] : []]);
+
+    expect(await collect(client.paginate('/items', {}, pageParamPagination()))).toHaveLength(3);
+    expect(await collect(client.paginate('/items', { maxPages: 2 }, pageParamPagination()))).toHaveLength(2);
+  });
+});
+
+describe('cursorPagination', () => {
+  test('passes the next cursor until it runs out', async () => {
+    const { client, mock } = createMockClient();
+    const pages: Record<string, { results: number[]; meta: { next: string | null } }> = {
+      start: { results: [1], meta: { next: 'b' } },
+      b: { results: [2, 3], meta: { next: 'c' } },
+      c: { results: [4], meta: { next: null } },
+    };
+    mock.onGet(/\/feed/).reply((config) => [200, pages[query(config.url).after ?? 'start']]);
+
+    const strategy = cursorPagination<number>({ cursorParam: 'after', nextCursor: 'meta.next' });
+    expect(await collect(client.paginate('/feed', {}, strategy))).toEqual([1, 2, 3, 4]);
+    expect(mock.history).toHaveLength(3);
+  });
+});
@@ -0,0 +1,117 @@
+import type { AxiosRequestConfig, PaginationStrategy, Response } from '../types';
+import { buildFullPath } from './buildFullPath';
+
+type Extractor<R> = string | ((data: any, response: Response<any>) => R);
+
+// Resolves either a callback or a dot path like `meta.next_cursor`
+function extract<R>(extractor: Extractor<R>, response: Response<any>): R {
+  if (typeof extractor === 'function') return extractor(response.data, response);
+  return extractor.split('.').reduce((value, key) => (value == null ? undefined : value[key]), response.data);
+}
+
+function defaultItems(data: any): any[] {
+  if (Array.isArray(data)) return data;
+  for (const key of ['items', 'data', 'results']) {
+    if (Array.isArray(data?.[key])) return data[key];
+  }
+  return [];
+}
+
+function toArray<T>(value: unknown): T[] {
+  return Array.isArray(value) ? value : [];
+}
+
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) return links;
+  for (const match of header.matchAll(/<([^>]*)>\s*((?:;\s*[^,;]+)*)/g)) {
+    const rel = /;\s*rel="?([^";]+)"?/i.exec(match[2]);
+    if (rel) {
+      for (const name of rel[1].trim().split(/\s+/)) links[name.toLowerCase()] = match[1];
+    }
+  }
+  return links;
+}
+
+export interface LinkHeaderPaginationOptions<T> {
+  items?: Extractor<T[]>;
+}
+
+// Follows RFC 5988 `Link: <...>; rel="next"` headers
+export function linkHeaderPagination<T>(options: LinkHeaderPaginationOptions<T> = {}): PaginationStrategy<T> {
+  return {
+    getItems: (response) => (options.items ? toArray<T>(extract(options.items, response)) : defaultItems(response.data)),
+    getNextRequest: (response, config) => {
+      const next = parseLinkHeader(response.headers.get('Link')).next;
+      if (!next) return null;
+
+      const current = response.request?.url ?? buildFullPath(config.baseURL, config.url ?? '');
+      let url = next;
+      try {
+        url = new URL(next, current).toString();
+      } catch {
+        // Relative base; hand the link over as-is and let baseURL resolve it
+      }
+      // The link already carries its query string
+      return { ...config, url, params: undefined };
+    },
+  };
+}
+
+export interface PageParamPaginationOptions<T> {
+  pageParam?: string;
+  limitParam?: string;
+  startPage?: number;
+  limit?: number;
+  items?: Extractor<T[]>;
+  // Optional total page count, checked before requesting the next page
+  totalPages?: Extractor<number | undefined>;
+}
+
+// Increments a page query param until a short or empty page comes back
+export function pageParamPagination<T>(options: PageParamPaginationOptions<T> = {}): PaginationStrategy<T> {
+  const { pageParam = 'page', limitParam = 'limit', startPage = 1, limit } = options;
+  const getItems = (response: Response<any>): T[] =>
+    options.items ? toArray<T>(extract(options.items, response)) : defaultItems(response.data);
+
+  return {
+    getInitialRequest: (config) => {
+      const params: Record<string, any> = { [pageParam]: startPage, ...config.params };
+      if (limit !== undefined && params[limitParam] === undefined) params[limitParam] = limit;
+      return { ...config, params };
+    },
+    getItems,
+    getNextRequest: (response, config) => {
+      const page = Number(config.params?.[pageParam] ?? startPage);
+      const pageSize = Number(config.params?.[limitParam] ?? limit);
+      const items = getItems(response);
+
+      if (!items.length || (pageSize && items.length < pageSize)) return null;
+      if (options.totalPages) {
+        const total = extract(options.totalPages, response);
+        if (total !== undefined && page >= total) return null;
+      }
+
+      return { ...config, params: { ...config.params, [pageParam]: page + 1 } };
+    },
+  };
+}
+
+export interface CursorPaginationOptions<T> {
+  cursorParam?: string;
+  // Where the next cursor lives in the body; a falsy cursor ends iteration
+  nextCursor: Extractor<string | number | null | undefined>;
+  items?: Extractor<T[]>;
+}
+
+export function cursorPagination<T>(options: CursorPaginationOptions<T>): PaginationStrategy<T> {
+  const { cursorParam = 'cursor' } = options;
+  return {
+    getItems: (response) => (options.items ? toArray<T>(extract(options.items, response)) : defaultItems(response.data)),
+    getNextRequest: (response, config: AxiosRequestConfig) => {
+      const cursor = extract(options.nextCursor, response);
+      if (cursor === null || cursor === undefined || cursor === '') return null;
+      return { ...config, params: { ...config.params, [cursorParam]: cursor } };
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { AxiosClone } from '../axiosClone';
+import type { ProgressEvent } from '../types';
+
+// Echoes how the body arrived
+const server = createServer((req, res) => {
+  let received = 0;
+  req.on('data', (chunk: Buffer) => (received += chunk.length));
+  req.on('end', () => {
+    res.setHeader('Content-Type', 'application/json');
+    res.end(JSON.stringify({ contentLength: req.headers['content-length'] ?? null, received }));
+  });
+});
+await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+const client = AxiosClone.create({ baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}` });
+
+afterAll(() => {
+  server.close();
+});
+
+describe('upload progress', () => {
+  test('keeps the Content-Length of bodies with a known size', async () => {
+    const events: ProgressEvent[] = [];
+    const body = new Uint8Array(200_000);
+
+    const response = await client.post('/upload', body, { onUploadProgress: (event) => events.push(event) });
+    expect(response.data).toEqual({ contentLength: '200000', received: 200_000 });
+    expect(events.length).toBeGreaterThan(1);
+    expect(events.at(-1)).toMatchObject({ loaded: 200_000, total: 200_000, upload: true });
+  });
+});
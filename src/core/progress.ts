@@ -0,0 +1,110 @@
+import type { ProgressEvent } from '../types';
+import { setHeader } from './headers';
+
+const UPLOAD_CHUNK_SIZE = 64 * 1024;
+
+// Accumulates byte counts and derives rate/ETA from the time since the first call
+export function createProgressReporter(
+  listener: (event: ProgressEvent) => void,
+  total: number | undefined,
+  direction: 'upload' | 'download'
+): (bytes: number) => void {
+  const startedAt = performance.now();
+  let loaded = 0;
+
+  return (bytes) => {
+    loaded += bytes;
+    const elapsed = (performance.now() - startedAt) / 1000;
+    const rate = elapsed > 0 ? loaded / elapsed : undefined;
+    listener({
+      loaded,
+      total,
+      bytes,
+      progress: total ? Math.min(loaded / total, 1) : undefined,
+      rate,
+      estimated: total && rate ? Math.max(total - loaded, 0) / rate : undefined,
+      upload: direction === 'upload',
+      download: direction === 'download',
+    });
+  };
+}
+
+export function trackStream(
+  stream: ReadableStream<Uint8Array>,
+  onChunk: (bytes: number) => void
+): ReadableStream<Uint8Array> {
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        onChunk(chunk.byteLength);
+        controller.enqueue(chunk);
+      },
+    })
+  );
+}
+
+// Re-wraps the response so its body reports progress as it is read, whatever the responseType
+export function withDownloadProgress(
+  response: globalThis.Response,
+  listener: (event: ProgressEvent) => void
+): globalThis.Response {
+  if (!response.body) return response;
+
+  const length = Number(response.headers.get('Content-Length'));
+  const report = createProgressReporter(listener, length > 0 ? length : undefined, 'download');
+  return new globalThis.Response(trackStream(response.body, report), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+  });
+}
+
+async function toBytes(body: any, headers: Record<string, string>): Promise<Uint8Array | undefined> {
+  if (typeof body === 'string') return new TextEncoder().encode(body);
+  if (body instanceof URLSearchParams) return new TextEncoder().encode(body.toString());
+  if (body instanceof ArrayBuffer) return new Uint8Array(body);
+  if (ArrayBuffer.isView(body)) return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  if (body instanceof Blob) return new Uint8Array(await body.arrayBuffer());
+  if (body instanceof FormData) {
+    // Let the platform encode the multipart body so we keep its boundary
+    const encoded = new globalThis.Response(body);
+    setHeader(headers, 'Content-Type', encoded.headers.get('Content-Type')!);
+    return new Uint8Array(await encoded.arrayBuffer());
+  }
+  return undefined;
+}
+
+// Turns the request body into a stream that reports upload progress as fetch pulls from it.
+// Streaming request bodies need half-duplex fetch, which Bun and Node support. Bodies of known
+// size keep their Content-Length; only streams the caller passed in go out chunked.
+export async function withUploadProgress(
+  body: any,
+  headers: Record<string, string>,
+  listener: (event: ProgressEvent) => void
+): Promise<any> {
+  if (body === undefined || body === null) return body;
+
+  if (body instanceof ReadableStream) {
+    return trackStream(body, createProgressReporter(listener, undefined, 'upload'));
+  }
+
+  const bytes = await toBytes(body, headers);
+  if (!bytes) return body;
+
+  // fetch cannot tell the length of a stream, so it would otherwise fall back to chunked encoding
+  setHeader(headers, 'Content-Length', String(bytes.byteLength));
+  const report = createProgressReporter(listener, bytes.byteLength, 'upload');
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.byteLength) {
+        controller.close();
+        return;
+      }
+      const chunk = bytes.subarray(offset, offset + UPLOAD_CHUNK_SIZE);
+      offset += chunk.byteLength;
+      controller.enqueue(chunk);
+      report(chunk.byteLength);
+    },
+  });
+}
@@ -0,0 +1,104 @@
+import { describe, expect, test } from 'bun:test';
+import { createMockClient } from '../testUtils';
+import { AxiosCloneError } from '../types';
+import type { RequestConfig } from '../types';
+import { getRetryDelay, parseRetryAfter, resolveRetryPolicy, shouldRetry } from './retry';
+
+const failure = (method: string, status?: number, headers: Record<string, string> = {}) => {
+  const config: RequestConfig = { method };
+  const response = status ? { status, headers: new Headers(headers), config, data: null } : undefined;
+  const code = status ? AxiosCloneError.ERR_BAD_RESPONSE : AxiosCloneError.ERR_NETWORK;
+  return new AxiosCloneError('failed', code, config, undefined, response);
+};
+
+const GET: RequestConfig = { method: 'GET' };
+
+describe('retry policy', () => {
+  const policy = resolveRetryPolicy({ retries: 2, delay: 100 }, GET);
+
+  test('retries retryable statuses and network errors on idempotent methods', async () => {
+    expect(await shouldRetry(failure('GET', 503), 1, policy)).toBe(true);
+    expect(await shouldRetry(failure('GET'), 1, policy)).toBe(true);
+    expect(await shouldRetry(failure('GET', 400), 1, policy)).toBe(false);
+    expect(await shouldRetry(failure('POST', 503), 1, policy)).toBe(false);
+    expect(await shouldRetry(failure('GET', 503), 3, policy)).toBe(false);
+  });
+
+  test('never retries cancelled requests', async () => {
+    const canceled = new AxiosCloneError('canceled', AxiosCloneError.ERR_CANCELED, { method: 'GET' });
+    expect(await shouldRetry(canceled, 1, policy)).toBe(false);
+  });
+
+  test('lets retryCondition replace the status check but not the method rules', async () => {
+    const custom = resolveRetryPolicy({ retries: 2, delay: 100, retryCondition: (error) => error.status === 400 }, GET);
+    expect(await shouldRetry(failure('GET', 400), 1, custom)).toBe(true);
+    expect(await shouldRetry(failure('GET', 503), 1, custom)).toBe(false);
+    expect(await shouldRetry(failure('POST', 400), 1, custom)).toBe(false);
+  });
+
+  test('backs off exponentially up to maxDelay', () => {
+    const capped = resolveRetryPolicy({ retries: 5, delay: 100, maxDelay: 300 }, GET);
+    expect([1, 2, 3].map((attempt) => getRetryDelay(failure('GET', 503), attempt, capped))).toEqual([100, 200, 300]);
+  });
+
+  test('keeps jittered delays within the backoff', () => {
+    const full = resolveRetryPolicy({ retries: 5, delay: 100, jitter: 'full' }, GET);
+    const equal = resolveRetryPolicy({ retries: 5, delay: 100, jitter: 'equal' }, GET);
+    for (let i = 0; i < 20; i++) {
+      const fullDelay = getRetryDelay(failure('GET', 503), 2, full);
+      const equalDelay = getRetryDelay(failure('GET', 503), 2, equal);
+      expect(fullDelay).toBeGreaterThanOrEqual(0);
+      expect(fullDelay).toBeLessThanOrEqual(200);
+      expect(equalDelay).toBeGreaterThanOrEqual(100);
+      expect(equalDelay).toBeLessThanOrEqual(200);
+    }
+  });
+
+  test('honours Retry-After in seconds or as a date', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter(new Date(Date.now() + 60000).toUTCString())).toBeGreaterThan(58000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(getRetryDelay(failure('GET', 429, { 'Retry-After': '2' }), 1, policy)).toBe(2000);
+  });
+
+  test('lets request config override or disable the instance policy', () => {
+    expect(resolveRetryPolicy({ retries: 3, delay: 100 }, { ...GET, retry: { retries: 1 } }).retries).toBe(1);
+    expect(resolveRetryPolicy({ retries: 3, delay: 100 }, { ...GET, retry: false }).retries).toBe(0);
+  });
+});
+
+describe('retries through the client', () => {
+  test('replays failed attempts and reports them to onRetry', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/flaky').replyOnce(503);
+    mock.onGet('/flaky').networkErrorOnce();
+    mock.onGet('/flaky').reply(200, 'ok');
+    const retries: [number, number][] = [];
+
+    const response = await client.get('/flaky', {
+      retry: { onRetry: (error, attempt, delay) => void retries.push([attempt, delay]) },
+    });
+    expect(response.data).toBe('ok');
+    expect(response.timings?.attempts).toBe(3);
+    expect(retries).toEqual([
+      [1, 10],
+      [2, 20],
+    ]);
+  });
+
+  test('gives up after the configured retries with the attempt count', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/down').reply(503);
+
+    await expect(client.get('/down', { ...GET, retry: { retries: 1 } })).rejects.toMatchObject({ status: 503, attempts: 2 });
+    expect(mock.history).toHaveLength(2);
+  });
+
+  test('does not replay non-idempotent requests', async () => {
+    const { client, mock } = createMockClient();
+    mock.onPost('/orders').reply(503);
+
+    await expect(client.post('/orders', {})).rejects.toMatchObject({ status: 503 });
+    expect(mock.history).toHaveLength(1);
+  });
+});
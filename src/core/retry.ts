@@ -0,0 +1,64 @@
+import type { RequestConfig, RetryOptions } from '../types';
+import { AxiosCloneError } from '../types';
+
+export type RetryPolicy = Required<Omit<RetryOptions, 'retryCondition' | 'onRetry'>> &
+  Pick<RetryOptions, 'retryCondition' | 'onRetry'>;
+
+const defaultRetryPolicy: RetryPolicy = {
+  retries: 3,
+  delay: 1000,
+  maxDelay: 30000,
+  jitter: 'none',
+  retryableStatuses: [429, 502, 503, 504],
+  // Only idempotent methods are safe to replay by default
+  retryableMethods: ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'],
+  respectRetryAfter: true,
+};
+
+export function resolveRetryPolicy(instanceOptions: RetryOptions, config: RequestConfig): RetryPolicy {
+  if (config.retry === false) {
+    return { ...defaultRetryPolicy, ...instanceOptions, retries: 0 };
+  }
+  return { ...defaultRetryPolicy, ...instanceOptions, ...config.retry };
+}
+
+export async function shouldRetry(error: AxiosCloneError, attempt: number, policy: RetryPolicy): Promise<boolean> {
+  if (attempt > policy.retries || error.code === AxiosCloneError.ERR_CANCELED) return false;
+
+  const method = (error.config?.method || 'GET').toUpperCase();
+  if (!policy.retryableMethods.map((m) => m.toUpperCase()).includes(method)) return false;
+
+  if (policy.retryCondition) {
+    return policy.retryCondition(error, attempt);
+  }
+  if (error.response) {
+    return policy.retryableStatuses.includes(error.response.status);
+  }
+  return error.code === AxiosCloneError.ERR_NETWORK;
+}
+
+// Parses a Retry-After header given either as delta-seconds or as an HTTP date
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function getRetryDelay(error: AxiosCloneError, attempt: number, policy: RetryPolicy): number {
+  if (policy.respectRetryAfter) {
+    const retryAfter = parseRetryAfter(error.response?.headers.get('Retry-After'));
+    if (retryAfter !== undefined) return Math.min(retryAfter, policy.maxDelay);
+  }
+
+  const backoff = Math.min(policy.delay * Math.pow(2, attempt - 1), policy.maxDelay);
+  switch (policy.jitter) {
+    case 'full':
+      return Math.random() * backoff;
+    case 'equal':
+      return backoff / 2 + Math.random() * (backoff / 2);
+    default:
+      return backoff;
+  }
+}
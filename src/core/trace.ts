@@ -0,0 +1,9 @@
+function randomHex(bytes: number): string {
+  const values = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(values, (value) => value.toString(16).padStart(2, '0')).join('');
+}
+
+// W3C Trace Context header: version-traceid-parentid-flags
+export function createTraceparent(traceId: string = randomHex(16), sampled = true): string {
+  return `00-${traceId}-${randomHex(8)}-${sampled ? '01' : '00'}`;
+}
@@ -0,0 +1,89 @@
+import type { RequestConfig, ResponseType } from '../types';
+import { AxiosCloneError } from '../types';
+import { getHeader, removeHeader, setHeader } from './headers';
+import { isRawBody, toFormData, toURLEncodedForm } from './formData';
+
+const JSON_CONTENT_TYPE = /^application\/(?:[\w.+-]+\+)?json\b/i;
+const TEXT_CONTENT_TYPE = /^(?:text\/|application\/(?:[\w.+-]+\+)?xml\b|application\/javascript\b)/i;
+
+export function isJsonContentType(contentType: string | null | undefined): boolean {
+  return !!contentType && JSON_CONTENT_TYPE.test(contentType.trim());
+}
+
+export function defaultTransformRequest(data: any, headers: Record<string, string>): any {
+  if (data === undefined || data === null || typeof data === 'string') {
+    return data;
+  }
+
+  const contentType = getHeader(headers, 'Content-Type') || '';
+
+  if (isRawBody(data)) {
+    if (data instanceof FormData) {
+      // fetch has to generate the multipart boundary itself
+      removeHeader(headers, 'Content-Type');
+    } else if (data instanceof URLSearchParams && !contentType) {
+      setHeader(headers, 'Content-Type', 'application/x-www-form-urlencoded;charset=utf-8');
+    }
+    return data;
+  }
+
+  if (contentType.includes('multipart/form-data')) {
+    removeHeader(headers, 'Content-Type');
+    return toFormData(data);
+  }
+  if (contentType.includes('application/x-www-form-urlencoded')) {
+    return toURLEncodedForm(data).toString();
+  }
+
+  if (!contentType) {
+    setHeader(headers, 'Content-Type', 'application/json');
+  }
+  return JSON.stringify(data);
+}
+
+export function defaultTransformResponse(this: RequestConfig, data: any, headers: Headers): any {
+  if (typeof data !== 'string') return data;
+
+  const strict = this.responseType === 'json';
+  if (!strict && (this.responseType || !isJsonContentType(headers.get('Content-Type')))) {
+    return data;
+  }
+  if (data === '') return null;
+
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    if (strict) {
+      throw AxiosCloneError.from(error, AxiosCloneError.ERR_BAD_RESPONSE, this);
+    }
+    return data;
+  }
+}
+
+// Reads the raw body according to `responseType`; JSON parsing is left to transformResponse
+export async function readResponseBody(response: globalThis.Response, responseType?: ResponseType): Promise<any> {
+  switch (responseType) {
+    case 'arraybuffer':
+      return response.arrayBuffer();
+    case 'blob':
+      return response.blob();
+    case 'stream':
+      return response.body;
+    case 'document': {
+      const text = await response.text();
+      if (typeof DOMParser === 'undefined') return text;
+      const mimeType = response.headers.get('Content-Type')?.includes('xml') ? 'application/xml' : 'text/html';
+      return new DOMParser().parseFromString(text, mimeType);
+    }
+    case 'json':
+    case 'text':
+      return response.text();
+    default: {
+      const contentType = response.headers.get('Content-Type');
+      if (isJsonContentType(contentType) || (contentType && TEXT_CONTENT_TYPE.test(contentType.trim()))) {
+        return response.text();
+      }
+      return response.blob();
+    }
+  }
+}
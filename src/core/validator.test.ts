@@ -0,0 +1,54 @@
+import { describe, expect, test } from 'bun:test';
+import { createMockClient } from '../testUtils';
+import { ValidationError } from '../types';
+import { v } from './validator';
+
+const user = v.object({ name: v.string(), age: v.optional(v.number()), tags: v.array(v.string()) });
+
+describe('validator', () => {
+  test('accepts matching values', () => {
+    expect(user.parse({ name: 'ada', age: 36, tags: ['x'] })).toEqual({ name: 'ada', age: 36, tags: ['x'] });
+    expect(v.union(v.literal('a'), v.nullable(v.number())).parse(null)).toBeNull();
+  });
+
+  test('reports every issue with its path', () => {
+    try {
+      user.parse({ name: 1, age: 'old', tags: ['x', 2] });
+      throw new Error('Expected a schema error');
+    } catch (error: any) {
+      const paths = error.issues.map((issue: { path: (string | number)[] }) => issue.path);
+      expect(paths).toEqual([['name'], ['age'], ['tags', 1]]);
+    }
+  });
+});
+
+describe('schema option', () => {
+  test('types and validates response data', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/user').reply(200, { name: 'ada', tags: [] });
+
+    const response = await client.get('/user', { schema: user });
+    expect(response.data.name).toBe('ada');
+  });
+
+  test('rejects with the issues when the contract changes', async () => {
+    const { client, mock } = createMockClient();
+    mock.onGet('/user').reply(200, { name: null, tags: [] });
+
+    const failure = await client.get('/user', { schema: user }).catch((error) => error);
+    expect(failure).toBeInstanceOf(ValidationError);
+    expect(failure).toMatchObject({ code: 'ERR_VALIDATION', issues: [{ path: ['name'] }] });
+    expect(failure.response.status).toBe(200);
+  });
+
+  test('validates cache hits and merged requests too', async () => {
+    const { client, mock } = createMockClient({ cache: true }, { mock: { delayResponse: 10 } });
+    mock.onGet('/user').reply(200, 'not a user', { 'Cache-Control': 'max-age=60' });
+    const schema = v.object({ name: v.string() });
+
+    const merged = await Promise.allSettled([client.get('/user'), client.get('/user', { schema })]);
+    expect(merged.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+    await expect(client.get('/user', { schema })).rejects.toBeInstanceOf(ValidationError);
+    expect(mock.history).toHaveLength(1);
+  });
+});
@@ -0,0 +1,103 @@
+import type { Schema, ValidationIssue } from '../types';
+
+// Thrown by the built-in validators; its `issues` shape matches zod's so either can back `schema`
+export class SchemaError extends Error {
+  constructor(readonly issues: ValidationIssue[]) {
+    super(issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; '));
+    this.name = 'SchemaError';
+  }
+}
+
+type Check<T> = (value: unknown, path: (string | number)[], issues: ValidationIssue[]) => T;
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+export interface Validator<T> extends Schema<T> {
+  check: Check<T>;
+}
+
+function validator<T>(check: Check<T>): Validator<T> {
+  return {
+    check,
+    parse(data: unknown): T {
+      const issues: ValidationIssue[] = [];
+      const result = check(data, [], issues);
+      if (issues.length) throw new SchemaError(issues);
+      return result;
+    },
+  };
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Validator<T> {
+  return validator((value, path, issues) => {
+    if (typeof value !== type || (type === 'number' && Number.isNaN(value))) {
+      issues.push({ path, message: `Expected ${type}, received ${describe(value)}` });
+    }
+    return value as T;
+  });
+}
+
+// A deliberately small validator set for when pulling in zod isn't worth it
+export const v = {
+  string: () => primitive<string>('string'),
+  number: () => primitive<number>('number'),
+  boolean: () => primitive<boolean>('boolean'),
+  unknown: () => validator<unknown>((value) => value),
+
+  literal<L extends string | number | boolean | null>(literal: L): Validator<L> {
+    return validator((value, path, issues) => {
+      if (value !== literal) issues.push({ path, message: `Expected ${JSON.stringify(literal)}` });
+      return value as L;
+    });
+  },
+
+  array<T>(item: Validator<T>): Validator<T[]> {
+    return validator((value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `Expected array, received ${describe(value)}` });
+        return value as T[];
+      }
+      return value.map((element, index) => item.check(element, [...path, index], issues));
+    });
+  },
+
+  object<S extends Record<string, Validator<any>>>(shape: S): Validator<{ [K in keyof S]: Infer<S[K]> }> {
+    return validator((value, path, issues) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `Expected object, received ${describe(value)}` });
+        return value as any;
+      }
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, field] of Object.entries(shape)) {
+        const checked = field.check((value as Record<string, unknown>)[key], [...path, key], issues);
+        if (checked !== undefined || key in value) result[key] = checked;
+      }
+      return result as any;
+    });
+  },
+
+  optional<T>(inner: Validator<T>): Validator<T | undefined> {
+    return validator((value, path, issues) => (value === undefined ? undefined : inner.check(value, path, issues)));
+  },
+
+  nullable<T>(inner: Validator<T>): Validator<T | null> {
+    return validator((value, path, issues) => (value === null ? null : inner.check(value, path, issues)));
+  },
+
+  union<O extends Validator<any>[]>(...options: O): Validator<Infer<O[number]>> {
+    return validator((value, path, issues) => {
+      for (const option of options) {
+        const optionIssues: ValidationIssue[] = [];
+        const result = option.check(value, path, optionIssues);
+        if (!optionIssues.length) return result;
+      }
+      issues.push({ path, message: `Value did not match any of ${options.length} union members` });
+      return value as any;
+    });
+  },
+};
@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, spyOn, test } from 'bun:test';
+import { connect, createServer } from 'net';
+import type { AddressInfo, Server, Socket } from 'net';
+import { Connection } from './Connection';
+import type { ConnectionOptions, ResponseSlot } from './Connection';
+import type { ParsedRequest } from './HttpParser';
+import { sleep } from '../testUtils';
+
+let server: Server | undefined;
+
+afterEach(() => {
+    server?.close();
+    server = undefined;
+});
+
+const respond = (slot: ResponseSlot, status: string, body: string) => {
+    slot.write(`HTTP/1.1 ${status}\r\nContent-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+    slot.end();
+};
+
+// Serves requests through `handler`; parse errors and timeouts are answered with their status
+const listen = async (options: ConnectionOptions, handler: (request: ParsedRequest, slot: ResponseSlot) => void) => {
+    server = createServer((socket) => {
+        new Connection(socket, options, handler, (err, slot) => {
+            respond(slot, `${err.statusCode} ${err.message}`, err.message);
+        });
+    });
+    await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve));
+    return (server.address() as AddressInfo).port;
+};
+
+// Collects everything the server sends until it closes the connection
+const exchange = (port: number, send: (socket: Socket) => void | Promise<void>) =>
+    new Promise<{ data: string; elapsed: number }>((resolve, reject) => {
+        const started = performance.now();
+        let data = '';
+        const socket = connect(port, '127.0.0.1', () => send(socket));
+        socket.on('data', (chunk) => (data += chunk.toString()));
+        socket.on('error', reject);
+        socket.on('close', () => resolve({ data, elapsed: performance.now() - started }));
+    });
+
+describe('Connection', () => {
+    test('answers pipelined requests in order even when they finish out of order', async () => {
+        const port = await listen({}, (request, slot) => {
+            const delay = request.url === '/slow' ? 30 : 0;
+            setTimeout(() => respond(slot, '200 OK', request.url), delay);
+        });
+
+        const { data } = await exchange(port, (socket) => {
+            socket.write(
+                'GET /slow HTTP/1.1\r\nHost: x\r\n\r\n' +
+                    'GET /fast HTTP/1.1\r\nHost: x\r\n\r\n' +
+                    'GET /last HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n'
+            );
+        });
+        const bodies = data.split('HTTP/1.1 200 OK').slice(1).map((response) => response.split('\r\n\r\n')[1]);
+        expect(bodies).toEqual(['/slow', '/fast', '/last']);
+    });
+
+    test('times out a request head that never completes', async () => {
+        const port = await listen({ headerTimeout: 50 }, (request, slot) => respond(slot, '200 OK', 'ok'));
+
+        const { data, elapsed } = await exchange(port, (socket) => {
+            socket.write('GET / HTTP/1.1\r\nHost: x\r\n');
+        });
+        expect(data.startsWith('HTTP/1.1 408')).toBe(true);
+        expect(elapsed).toBeGreaterThanOrEqual(45);
+    });
+
+    test('does not extend the head deadline for trickling clients', async () => {
+        const port = await listen({ headerTimeout: 80 }, (request, slot) => respond(slot, '200 OK', 'ok'));
+
+        const { data, elapsed } = await exchange(port, async (socket) => {
+            for (const byte of 'GET / HTTP/1.1\r\nX-Slow: 1234567890') {
+                if (socket.destroyed) return;
+                socket.write(byte);
+                await sleep(10);
+            }
+        });
+        expect(data.startsWith('HTTP/1.1 408')).toBe(true);
+        expect(elapsed).toBeLessThan(250);
+    });
+
+    test('times out a body that stalls after the head', async () => {
+        const port = await listen({ headerTimeout: 1000, bodyTimeout: 50 }, (request, slot) =>
+            respond(slot, '200 OK', 'ok')
+        );
+
+        const { data, elapsed } = await exchange(port, (socket) => {
+            socket.write('POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 10\r\n\r\nabc');
+        });
+        expect(data.startsWith('HTTP/1.1 408')).toBe(true);
+        expect(elapsed).toBeLessThan(500);
+    });
+
+    test('closes idle keep-alive connections', async () => {
+        const port = await listen({ keepAliveTimeout: 50 }, (request, slot) => respond(slot, '200 OK', 'ok'));
+
+        const { data, elapsed } = await exchange(port, (socket) => {
+            socket.write('GET / HTTP/1.1\r\nHost: x\r\n\r\n');
+        });
+        expect(data).toBe('HTTP/1.1 200 OK\r\nContent-Length: 2\r\n\r\nok');
+        expect(elapsed).toBeGreaterThanOrEqual(45);
+    });
+
+    test('rejects bad framing and ignores what follows', async () => {
+        let handled = 0;
+        const port = await listen({}, (request, slot) => {
+            handled++;
+            respond(slot, '200 OK', 'ok');
+        });
+
+        const { data } = await exchange(port, (socket) => {
+            socket.write('POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 1, 2\r\n\r\nGET / HTTP/1.1\r\nHost: x\r\n\r\n');
+        });
+        expect(data.startsWith('HTTP/1.1 400')).toBe(true);
+        expect(handled).toBe(0);
+    });
+
+    test('answers 500 when a handler throws and keeps serving', async () => {
+        spyOn(console, 'error').mockImplementationOnce(() => {});
+        const port = await listen({}, (request, slot) => {
+            if (request.url === '/bug') throw new Error('bug');
+            respond(slot, '200 OK', request.url);
+        });
+
+        const { data } = await exchange(port, (socket) => {
+            socket.write('GET /bug HTTP/1.1\r\nHost: x\r\n\r\nGET /next HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n');
+        });
+        expect(data).toBe(
+            'HTTP/1.1 500 Internal Server Error\r\nContent-Length: 21\r\n\r\nInternal Server Error' +
+                'HTTP/1.1 200 OK\r\nContent-Length: 5\r\n\r\n/next'
+        );
+    });
+
+    test('answers 500 when parsing fails unexpectedly', async () => {
+        spyOn(console, 'error').mockImplementationOnce(() => {});
+        const maxBodySize = () => {
+            throw new Error('bug');
+        };
+        const port = await listen({ maxBodySize }, (request, slot) => respond(slot, '200 OK', 'ok'));
+
+        const { data } = await exchange(port, (socket) => {
+            socket.write('GET / HTTP/1.1\r\nHost: x\r\n\r\n');
+        });
+        expect(data.startsWith('HTTP/1.1 500')).toBe(true);
+    });
+
+    test('closes the connection when a streamed request is answered before its body arrived', async () => {
+        let aborted = false;
+        const port = await listen({ streamBody: () => true }, (request, slot) => {
+            request.bodyStream!.on('close', () => (aborted = !request.bodyStream!.readableEnded));
+            respond(slot, '413 Payload Too Large', 'no');
+        });
+
+        const { data } = await exchange(port, (socket) => {
+            socket.write('POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 100\r\n\r\nabc');
+        });
+        expect(data).toBe('HTTP/1.1 413 Payload Too Large\r\nContent-Length: 2\r\n\r\nno');
+        expect(aborted).toBe(true);
+    });
+
+    test('sends 100 Continue for a streamed body its handler is waiting for', async () => {
+        const port = await listen({ streamBody: () => true }, async (request, slot) => {
+            const body = Buffer.concat(await request.bodyStream!.toArray());
+            respond(slot, '200 OK', body.toString());
+        });
+
+        const { data } = await exchange(port, (socket) => {
+            socket.write('POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 2\r\nExpect: 100-continue\r\nConnection: close\r\n\r\n');
+            socket.once('data', () => socket.write('ok'));
+        });
+        expect(data).toBe('HTTP/1.1 100 Continue\r\n\r\nHTTP/1.1 200 OK\r\nContent-Length: 2\r\n\r\nok');
+    });
+});
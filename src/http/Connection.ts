@@ -0,0 +1,279 @@
+import type { Socket } from 'net';
+import { HttpParser, HttpParseError } from './HttpParser';
+import type { ParsedRequest, ParserOptions } from './HttpParser';
+
+export interface ConnectionOptions {
+    maxHeaderSize?: number;
+    maxBodySize?: ParserOptions['maxBodySize'];
+    streamBody?: ParserOptions['streamBody'];
+    // Time allowed to receive a complete request head once its first byte arrived
+    headerTimeout?: number;
+    // Time allowed to receive a request body once its head is complete; defaults to `headerTimeout`
+    bodyTimeout?: number;
+    // Time an open connection may sit without an outstanding request
+    keepAliveTimeout?: number;
+}
+
+// Output of one request. Pipelined requests may finish out of order, so a slot buffers its
+// bytes until every earlier response on the connection has been written.
+export class ResponseSlot {
+    private pending: Buffer[] = [];
+    private drainCallbacks: (() => void)[] = [];
+    active = false;
+    // Set once any response bytes were written
+    started = false;
+    finished = false;
+
+    constructor(private connection: Connection, public keepAlive: boolean) {}
+
+    // Returns false when the caller should wait for `onDrain` before writing more
+    write(chunk: string | Buffer): boolean {
+        if (this.finished) return false;
+        this.started = true;
+        const data = typeof chunk === 'string' ? Buffer.from(chunk) : chunk;
+        if (this.active) {
+            return this.connection.writeToSocket(data);
+        }
+        this.pending.push(data);
+        return false;
+    }
+
+    onDrain(callback: () => void) {
+        if (this.active) {
+            this.connection.onDrain(callback);
+        } else {
+            this.drainCallbacks.push(callback);
+        }
+    }
+
+    end() {
+        if (this.finished) return;
+        this.finished = true;
+        this.connection.advance();
+    }
+
+    flush() {
+        this.active = true;
+        for (const data of this.pending) {
+            this.connection.writeToSocket(data);
+        }
+        this.pending = [];
+
+        const callbacks = this.drainCallbacks;
+        this.drainCallbacks = [];
+        for (const callback of callbacks) {
+            this.connection.onDrain(callback);
+        }
+    }
+}
+
+export class Connection {
+    private parser: HttpParser;
+    private slots: ResponseSlot[] = [];
+    private acceptingRequests = true;
+    private closed = false;
+    private headerTimer?: ReturnType<typeof setTimeout>;
+    private idleTimer?: ReturnType<typeof setTimeout>;
+    private bodyTimer?: ReturnType<typeof setTimeout>;
+    private headerTimeout: number;
+    private bodyTimeout: number;
+    private keepAliveTimeout: number;
+    // Slot of the last request whose body was streamed; see `parser.bodyStream` for whether it still is
+    private bodySlot?: ResponseSlot;
+
+    constructor(
+        private socket: Socket,
+        options: ConnectionOptions,
+        private onRequest: (request: ParsedRequest, slot: ResponseSlot) => void,
+        private onError: (err: HttpParseError, slot: ResponseSlot) => void
+    ) {
+        this.parser = new HttpParser({
+            maxHeaderSize: options.maxHeaderSize,
+            maxBodySize: options.maxBodySize,
+            streamBody: options.streamBody,
+            onBodyDemand: () => socket.resume(),
+        });
+        this.headerTimeout = options.headerTimeout ?? 20000;
+        this.keepAliveTimeout = options.keepAliveTimeout ?? 5000;
+        this.bodyTimeout = options.bodyTimeout ?? this.headerTimeout;
+
+        socket.on('data', (data) => this.receive(data));
+        socket.on('close', () => {
+            this.closed = true;
+            this.clearTimers();
+            this.parser.abortBody(new Error('Request aborted'));
+        });
+        this.startIdleTimer();
+    }
+
+    writeToSocket(data: Buffer): boolean {
+        if (this.closed || !this.socket.writable) return false;
+        return this.socket.write(data);
+    }
+
+    onDrain(callback: () => void) {
+        if (this.closed) return;
+        if (this.socket.writableNeedDrain) {
+            this.socket.once('drain', callback);
+        } else {
+            callback();
+        }
+    }
+
+    // Writes finished responses in request order and closes the socket after the last one
+    advance() {
+        while (this.slots.length) {
+            const slot = this.slots[0];
+            if (!slot.active) slot.flush();
+            if (!slot.finished) return;
+
+            this.slots.shift();
+            // Unread body bytes of a streamed request would be taken for the next request
+            if (!slot.keepAlive || this.isReceivingBody(slot)) {
+                this.close();
+                return;
+            }
+        }
+        if (!this.parser.inProgress) {
+            this.startIdleTimer();
+        }
+    }
+
+    private receive(data: Buffer) {
+        // A streamed body keeps arriving after a `Connection: close` request stopped new ones
+        if (!this.acceptingRequests && !this.parser.bodyStream) return;
+        this.clearTimer('idleTimer');
+
+        const streamed = this.parser.bodyStream;
+        let requests: ParsedRequest[];
+        try {
+            requests = this.parser.push(data);
+        } catch (err) {
+            if (!(err instanceof HttpParseError)) {
+                console.error('Request parsing error:', err);
+            }
+            this.fail(err instanceof HttpParseError ? err : new HttpParseError('Internal Server Error', 500));
+            return;
+        }
+        if (this.parser.bodyBackedUp) {
+            this.socket.pause();
+        }
+
+        for (const request of requests) {
+            if (!this.acceptingRequests) break;
+            const slot = this.enqueue(request.keepAlive);
+            if (request.bodyStream && request.bodyStream === this.parser.bodyStream) {
+                this.bodySlot = slot;
+            }
+            try {
+                this.onRequest(request, slot);
+            } catch (err) {
+                this.abort(err, slot);
+            }
+            if (!request.keepAlive || !this.acceptingRequests) {
+                // Anything the client pipelined after a `Connection: close` request is ignored
+                this.acceptingRequests = false;
+                break;
+            }
+        }
+        if (!this.acceptingRequests && !this.parser.bodyStream) return;
+
+        if (this.parser.expectsContinue) {
+            this.parser.expectsContinue = false;
+            // Not while earlier responses are pending, nor once the handler of a streamed body answered
+            const waiting = this.parser.bodyStream
+                ? this.slots.length === 1 && !this.slots[0].started
+                : !this.slots.length;
+            if (waiting) {
+                this.writeToSocket(Buffer.from('HTTP/1.1 100 Continue\r\n\r\n'));
+            }
+        }
+
+        // Deadlines run per request and are not extended by further bytes, so trickling clients time out too
+        if (requests.length || (streamed && this.parser.bodyStream !== streamed)) {
+            this.clearTimer('headerTimer');
+            this.clearTimer('bodyTimer');
+        }
+        if (this.parser.awaitingHead) {
+            this.headerTimer ||= this.startRequestTimer('headerTimer', this.headerTimeout);
+        } else if (this.parser.inProgress) {
+            this.clearTimer('headerTimer');
+            this.bodyTimer ||= this.startRequestTimer('bodyTimer', this.bodyTimeout);
+        } else {
+            this.clearTimer('headerTimer');
+            if (!this.slots.length) {
+                this.startIdleTimer();
+            }
+        }
+    }
+
+    private startRequestTimer(name: 'headerTimer' | 'bodyTimer', timeout: number) {
+        return setTimeout(() => {
+            this[name] = undefined;
+            this.fail(new HttpParseError('Request Timeout', 408));
+        }, timeout);
+    }
+
+    private enqueue(keepAlive: boolean) {
+        const slot = new ResponseSlot(this, keepAlive);
+        this.slots.push(slot);
+        if (this.slots.length === 1) slot.flush();
+        return slot;
+    }
+
+    private fail(err: HttpParseError) {
+        this.acceptingRequests = false;
+        this.clearTimers();
+        if (this.bodySlot && this.isReceivingBody(this.bodySlot)) {
+            // That request is with its handler already, which answers once reading the body fails
+            this.bodySlot.keepAlive = false;
+            this.parser.abortBody(err);
+            return;
+        }
+        this.onError(err, this.enqueue(false));
+    }
+
+    private isReceivingBody(slot: ResponseSlot) {
+        return slot === this.bodySlot && this.parser.bodyStream !== undefined;
+    }
+
+    // A throwing request handler answers 500 instead of taking the whole server down
+    private abort(err: unknown, slot: ResponseSlot) {
+        console.error('Request handling error:', err);
+        if (!slot.started) {
+            this.onError(new HttpParseError('Internal Server Error', 500), slot);
+        } else if (!slot.finished) {
+            // Part of a response is already out, so nothing more can follow it on this connection
+            this.acceptingRequests = false;
+            slot.keepAlive = false;
+            slot.end();
+        }
+    }
+
+    private startIdleTimer() {
+        this.clearTimer('idleTimer');
+        this.idleTimer = setTimeout(() => this.close(), this.keepAliveTimeout);
+    }
+
+    private close() {
+        this.acceptingRequests = false;
+        this.clearTimers();
+        this.parser.abortBody();
+        if (!this.closed) {
+            this.socket.end();
+        }
+    }
+
+    private clearTimer(name: 'headerTimer' | 'bodyTimer' | 'idleTimer') {
+        if (this[name]) {
+            clearTimeout(this[name]);
+            this[name] = undefined;
+        }
+    }
+
+    private clearTimers() {
+        this.clearTimer('headerTimer');
+        this.clearTimer('bodyTimer');
+        this.clearTimer('idleTimer');
+    }
+}
@@ -0,0 +1,7 @@
+// Throw (or pass to `next`) to answer with a specific status code
+export class HttpError extends Error {
+    constructor(public status: number, message?: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
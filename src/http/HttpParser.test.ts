@@ -0,0 +1,158 @@
+import { describe, expect, test } from 'bun:test';
+import { HttpParser, HttpParseError } from './HttpParser';
+
+const parse = (raw: string, parser = new HttpParser()) => parser.push(Buffer.from(raw));
+
+const parseError = (raw: string, parser = new HttpParser()) => {
+    try {
+        parse(raw, parser);
+    } catch (err) {
+        expect(err).toBeInstanceOf(HttpParseError);
+        return err as HttpParseError;
+    }
+    throw new Error('Expected a parse error');
+};
+
+describe('HttpParser', () => {
+    test('parses a request head and folds repeated headers', () => {
+        const [request] = parse('GET /a?b=1 HTTP/1.1\r\nHost: x\r\nAccept: a\r\naccept: b\r\nCookie: c=1\r\nCookie: d=2\r\n\r\n');
+        expect(request).toMatchObject({ method: 'GET', url: '/a?b=1', httpVersion: '1.1', keepAlive: true });
+        expect(request.headers).toEqual({ host: 'x', accept: 'a, b', cookie: 'c=1; d=2' });
+        expect(request.rawHeaders[2]).toEqual(['accept', 'b']);
+        expect(request.body).toHaveLength(0);
+    });
+
+    test('returns every pipelined request from one packet', () => {
+        const requests = parse(
+            'GET /1 HTTP/1.1\r\nHost: x\r\n\r\n' +
+                'POST /2 HTTP/1.1\r\nHost: x\r\nContent-Length: 5\r\n\r\nhello' +
+                '\r\nGET /3 HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n'
+        );
+        expect(requests.map((request) => request.url)).toEqual(['/1', '/2', '/3']);
+        expect(requests[1].body.toString()).toBe('hello');
+        expect(requests[2].keepAlive).toBe(false);
+    });
+
+    test('keeps requests split across packets intact', () => {
+        const parser = new HttpParser();
+        const data = Buffer.from(`POST /u HTTP/1.1\r\nHost: x\r\nContent-Length: ${Buffer.byteLength('€u')}\r\n\r\n€u`);
+
+        // Byte by byte, so the multi-byte character arrives in pieces too
+        const received = [];
+        for (let i = 0; i < data.length; i++) {
+            received.push(...parser.push(data.subarray(i, i + 1)));
+            if (i < data.length - 1) expect(parser.inProgress).toBe(true);
+        }
+        expect(received).toHaveLength(1);
+        expect(received[0].body.toString('utf8')).toBe('€u');
+        expect(parser.inProgress).toBe(false);
+    });
+
+    test('decodes chunked bodies and drops extensions and trailers', () => {
+        const [request] = parse(
+            'POST /c HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n' +
+                '5;ext=1\r\nhello\r\n6\r\n world\r\n0\r\nX-Trailer: y\r\n\r\n'
+        );
+        expect(request.body.toString()).toBe('hello world');
+        expect(request.headers['x-trailer']).toBeUndefined();
+    });
+
+    test('lets Transfer-Encoding win over Content-Length', () => {
+        const [request] = parse(
+            'POST /c HTTP/1.1\r\nHost: x\r\nContent-Length: 100\r\nTransfer-Encoding: chunked\r\n\r\n1\r\na\r\n0\r\n\r\n'
+        );
+        expect(request.body.toString()).toBe('a');
+        expect(request.headers['content-length']).toBeUndefined();
+    });
+
+    test('rejects ambiguous or malformed framing', () => {
+        expect(parseError('POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 1, 2\r\n\r\n').statusCode).toBe(400);
+        expect(parseError('POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: gzip\r\n\r\n').statusCode).toBe(400);
+        expect(parseError('POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\nzz\r\n').statusCode).toBe(400);
+        expect(parseError('GET / HTTP/1.1\r\nHost: x\r\nHost: y\r\n\r\n').message).toBe('Duplicate Host header');
+        expect(parseError('GET / HTTP/2.0\r\n\r\n').statusCode).toBe(505);
+    });
+
+    test('accepts origin-form and absolute-form targets only', () => {
+        expect(parse('GET //a/b?c HTTP/1.1\r\nHost: x\r\n\r\n')[0].url).toBe('//a/b?c');
+        expect(parse('GET http://x/a HTTP/1.1\r\nHost: x\r\n\r\n')[0].url).toBe('http://x/a');
+        for (const target of ['http://[::1/', 'a/b', '*', 'ftp://x/']) {
+            expect(parseError(`GET ${target} HTTP/1.1\r\nHost: x\r\n\r\n`).message).toBe('Malformed request target');
+        }
+    });
+
+    test('enforces header and body size limits', () => {
+        const headers = new HttpParser({ maxHeaderSize: 64 });
+        expect(parseError(`GET / HTTP/1.1\r\nX-Big: ${'a'.repeat(100)}`, headers).statusCode).toBe(431);
+
+        const body = new HttpParser({ maxBodySize: 4 });
+        expect(parseError('POST / HTTP/1.1\r\nHost: x\r\nContent-Length: 5\r\n\r\n', body).statusCode).toBe(413);
+
+        const chunked = new HttpParser({ maxBodySize: 4 });
+        expect(
+            parseError('POST / HTTP/1.1\r\nHost: x\r\nTransfer-Encoding: chunked\r\n\r\n3\r\nabc\r\n3\r\n', chunked).statusCode
+        ).toBe(413);
+    });
+
+    test('picks the body limit per request when given a function', () => {
+        const parser = new HttpParser({
+            maxBodySize: (headers) => (headers['content-type'] === 'application/upload' ? 10 : 2),
+        });
+        const [upload] = parse('POST / HTTP/1.1\r\nContent-Type: application/upload\r\nContent-Length: 8\r\n\r\n12345678', parser);
+        expect(upload.body.toString()).toBe('12345678');
+        expect(parseError('POST / HTTP/1.1\r\nContent-Length: 8\r\n\r\n', parser).statusCode).toBe(413);
+    });
+
+    test('reports head and body progress', () => {
+        const parser = new HttpParser();
+        expect(parser.inProgress).toBe(false);
+        parse('POST / HTTP/1.1\r\nHost: x', parser);
+        expect(parser.awaitingHead).toBe(true);
+        parse('\r\nContent-Length: 2\r\nExpect: 100-continue\r\n\r\n', parser);
+        expect(parser.awaitingHead).toBe(false);
+        expect(parser.inProgress).toBe(true);
+        expect(parser.expectsContinue).toBe(true);
+        expect(parse('ok', parser)).toHaveLength(1);
+        expect(parser.inProgress).toBe(false);
+    });
+
+    test('hands out streamed requests at their head and passes the body on as it arrives', async () => {
+        const parser = new HttpParser({ maxBodySize: 2, streamBody: (headers) => headers['content-type'] === 'upload' });
+        const [upload] = parse('POST /u HTTP/1.1\r\nContent-Type: upload\r\nContent-Length: 6\r\n\r\nabc', parser);
+        expect(upload.body).toHaveLength(0);
+        expect(parser.bodyStream).toBe(upload.bodyStream!);
+
+        const [next] = parse('defGET /n HTTP/1.1\r\n\r\n', parser);
+        expect(next.url).toBe('/n');
+        expect(parser.bodyStream).toBeUndefined();
+        expect(Buffer.concat(await upload.bodyStream!.toArray()).toString()).toBe('abcdef');
+    });
+
+    test('streams chunked bodies piece by piece', async () => {
+        const parser = new HttpParser({ streamBody: () => true });
+        const [request] = parse('POST / HTTP/1.1\r\nTransfer-Encoding: chunked\r\n\r\n6\r\nabc', parser);
+        const pieces: string[] = [];
+        request.bodyStream!.on('data', (piece: Buffer) => pieces.push(piece.toString()));
+
+        parse('def\r\n2\r\ngh\r\n0\r\n\r\n', parser);
+        await new Promise((resolve) => request.bodyStream!.once('end', resolve));
+        expect(pieces).toEqual(['abc', 'def', 'gh']);
+    });
+
+    test('reports when a streamed body backs up until its reader asks for more', () => {
+        let demands = 0;
+        const parser = new HttpParser({ streamBody: () => true, onBodyDemand: () => demands++ });
+        const [request] = parse('POST / HTTP/1.1\r\nContent-Length: 200000\r\n\r\n', parser);
+        parse('x'.repeat(100000), parser);
+        expect(parser.bodyBackedUp).toBe(true);
+
+        request.bodyStream!.read();
+        expect(parser.bodyBackedUp).toBe(false);
+        expect(demands).toBe(1);
+    });
+
+    test('treats HTTP/1.0 as close unless keep-alive is asked for', () => {
+        expect(parse('GET / HTTP/1.0\r\n\r\n')[0].keepAlive).toBe(false);
+        expect(parse('GET / HTTP/1.0\r\nConnection: keep-alive\r\n\r\n')[0].keepAlive).toBe(true);
+    });
+});
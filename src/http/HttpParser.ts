@@ -0,0 +1,323 @@
+import { Readable } from 'stream';
+
+export class HttpParseError extends Error {
+    constructor(message: string, public statusCode: number = 400) {
+        super(message);
+        this.name = 'HttpParseError';
+    }
+}
+
+export interface ParsedRequest {
+    method: string;
+    url: string;
+    httpVersion: string;
+    // Lowercased names; repeated headers are folded into one value
+    headers: { [key: string]: string };
+    rawHeaders: [string, string][];
+    body: Buffer;
+    // Set for requests picked by `streamBody`; `body` stays empty and the bytes arrive here instead
+    bodyStream?: Readable;
+    keepAlive: boolean;
+}
+
+export interface ParserOptions {
+    maxHeaderSize?: number;
+    // Requests with larger bodies are rejected with 413 before the body is buffered. A function
+    // picks the limit per request from its headers.
+    maxBodySize?: number | ((headers: { [key: string]: string }) => number);
+    // Requests for which this returns true are handed out as soon as their head is complete, with
+    // the body streamed through `bodyStream`. Their reader enforces its own size limits.
+    streamBody?: (headers: { [key: string]: string }) => boolean;
+    // Called when the reader of a streamed body wants more after `bodyBackedUp` was set
+    onBodyDemand?: () => void;
+}
+
+type State = 'head' | 'body' | 'chunk-size' | 'chunk-data' | 'chunk-trailers';
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+const TOKEN = /^[!#$%&'*+\-.^_`|~0-9A-Za-z]+$/;
+const REQUEST_LINE = /^([!#$%&'*+\-.^_`|~0-9A-Za-z]+) (\S+) HTTP\/(\d)\.(\d)$/;
+
+// Only origin-form (`/path?query`) and absolute-form (`http://host/path`) targets are served
+function isRequestTarget(target: string): boolean {
+    const absolute = target.startsWith('/') ? `http://localhost${target}` : target;
+    return /^https?:\/\//i.test(absolute) && URL.canParse(absolute);
+}
+
+// Incremental HTTP/1.1 request parser working on raw bytes, so bodies and multi-byte
+// characters split across packets survive intact. Feed it socket data with `push`.
+export class HttpParser {
+    private buffer: Buffer = Buffer.alloc(0);
+    private state: State = 'head';
+    private current?: Omit<ParsedRequest, 'body'>;
+    private bodyLength = 0;
+    private chunks: Buffer[] = [];
+    private chunkRemaining = 0;
+    private chunkedLength = 0;
+    private maxHeaderSize: number;
+    private maxBodySize: NonNullable<ParserOptions['maxBodySize']>;
+    private bodyLimit = Infinity;
+    private streamBody?: ParserOptions['streamBody'];
+    private onBodyDemand?: () => void;
+    private stream?: Readable;
+
+    // Set when a streamed body holds more than its reader consumed; the caller should stop reading
+    bodyBackedUp = false;
+
+    // Set once a request head asked for `Expect: 100-continue`; cleared by the caller
+    expectsContinue = false;
+
+    constructor(options: ParserOptions = {}) {
+        this.maxHeaderSize = options.maxHeaderSize ?? 16 * 1024;
+        this.maxBodySize = options.maxBodySize ?? Infinity;
+        this.streamBody = options.streamBody;
+        this.onBodyDemand = options.onBodyDemand;
+    }
+
+    // The body currently being streamed, if any
+    get bodyStream(): Readable | undefined {
+        return this.stream;
+    }
+
+    // True once bytes of a request have arrived but the request is not complete yet
+    get inProgress(): boolean {
+        return this.state !== 'head' || this.buffer.length > 0;
+    }
+
+    // True while the head of the current request is still incomplete
+    get awaitingHead(): boolean {
+        return this.state === 'head' && this.buffer.length > 0;
+    }
+
+    // Ends a streamed body early, with `err` for its reader when it listens for errors
+    abortBody(err?: Error) {
+        const stream = this.stream;
+        if (!stream) return;
+        this.stream = undefined;
+        this.bodyBackedUp = false;
+        stream.destroy(err && stream.listenerCount('error') ? err : undefined);
+    }
+
+    push(data: Buffer): ParsedRequest[] {
+        this.buffer = this.buffer.length ? Buffer.concat([this.buffer, data]) : data;
+        const completed: ParsedRequest[] = [];
+        const finish = (body: Buffer) => {
+            const request = this.finish(body);
+            if (request) completed.push(request);
+        };
+
+        let progressed = true;
+        while (progressed) {
+            progressed = false;
+            switch (this.state) {
+                case 'head':
+                    progressed = this.readHead();
+                    if (progressed && this.stream) {
+                        completed.push({ ...this.current!, body: Buffer.alloc(0), bodyStream: this.stream });
+                    }
+                    break;
+                case 'body':
+                    if (this.stream && this.buffer.length) {
+                        // Streamed bodies pass on whatever part has arrived
+                        const piece = this.buffer.subarray(0, this.bodyLength);
+                        this.pushBody(piece);
+                        this.bodyLength -= piece.length;
+                        this.buffer = this.buffer.subarray(piece.length);
+                    }
+                    if (this.buffer.length >= this.bodyLength) {
+                        finish(this.buffer.subarray(0, this.bodyLength));
+                        this.buffer = this.buffer.subarray(this.bodyLength);
+                        progressed = true;
+                    }
+                    break;
+                case 'chunk-size':
+                    progressed = this.readChunkSize();
+                    break;
+                case 'chunk-data':
+                    if (this.stream) {
+                        const piece = this.buffer.subarray(0, this.chunkRemaining);
+                        this.pushBody(piece);
+                        this.chunkRemaining -= piece.length;
+                        this.buffer = this.buffer.subarray(piece.length);
+                    }
+                    if (this.buffer.length >= this.chunkRemaining + 2) {
+                        if (!this.buffer.subarray(this.chunkRemaining, this.chunkRemaining + 2).equals(CRLF)) {
+                            throw new HttpParseError('Malformed chunk terminator');
+                        }
+                        this.chunks.push(this.buffer.subarray(0, this.chunkRemaining));
+                        this.buffer = this.buffer.subarray(this.chunkRemaining + 2);
+                        this.state = 'chunk-size';
+                        progressed = true;
+                    }
+                    break;
+                case 'chunk-trailers': {
+                    const lineEnd = this.buffer.indexOf(CRLF);
+                    if (lineEnd !== -1) {
+                        // Trailer fields are read and dropped; an empty line ends the message
+                        this.buffer = this.buffer.subarray(lineEnd + 2);
+                        if (lineEnd === 0) {
+                            finish(Buffer.concat(this.chunks));
+                        }
+                        progressed = true;
+                    }
+                    break;
+                }
+            }
+        }
+
+        return completed;
+    }
+
+    private readHead(): boolean {
+        // Tolerate stray CRLFs between pipelined requests
+        while (this.buffer.subarray(0, 2).equals(CRLF)) {
+            this.buffer = this.buffer.subarray(2);
+        }
+        if (!this.buffer.length) return false;
+
+        const headEnd = this.buffer.indexOf(HEADER_END);
+        if (headEnd === -1) {
+            if (this.buffer.length > this.maxHeaderSize) {
+                throw new HttpParseError('Request header fields too large', 431);
+            }
+            return false;
+        }
+        if (headEnd > this.maxHeaderSize) {
+            throw new HttpParseError('Request header fields too large', 431);
+        }
+
+        const head = this.buffer.subarray(0, headEnd).toString('utf8');
+        this.buffer = this.buffer.subarray(headEnd + 4);
+
+        const [requestLine, ...lines] = head.split('\r\n');
+        const match = REQUEST_LINE.exec(requestLine);
+        if (!match) {
+            throw new HttpParseError('Malformed request line');
+        }
+        const [, method, url, major, minor] = match;
+        if (major !== '1') {
+            throw new HttpParseError('HTTP version not supported', 505);
+        }
+        if (!isRequestTarget(url)) {
+            throw new HttpParseError('Malformed request target');
+        }
+
+        const headers: { [key: string]: string } = {};
+        const rawHeaders: [string, string][] = [];
+        for (const line of lines) {
+            if (/^[ \t]/.test(line)) {
+                throw new HttpParseError('Obsolete header line folding is not allowed');
+            }
+            const separator = line.indexOf(':');
+            const name = separator === -1 ? '' : line.substring(0, separator);
+            if (!TOKEN.test(name)) {
+                throw new HttpParseError('Malformed header line');
+            }
+            const value = line.substring(separator + 1).trim();
+            rawHeaders.push([name, value]);
+
+            const key = name.toLowerCase();
+            if (headers[key] === undefined) {
+                headers[key] = value;
+            } else if (key === 'host') {
+                throw new HttpParseError('Duplicate Host header');
+            } else {
+                headers[key] += key === 'cookie' ? `; ${value}` : `, ${value}`;
+            }
+        }
+
+        const httpVersion = `${major}.${minor}`;
+        const connection = (headers['connection'] || '').toLowerCase();
+        const keepAlive = httpVersion === '1.0' ? connection.includes('keep-alive') : !connection.includes('close');
+        this.current = { method, url, httpVersion, headers, rawHeaders, keepAlive };
+        this.expectsContinue = (headers['expect'] || '').toLowerCase() === '100-continue';
+        if (this.streamBody?.(headers)) {
+            const stream = new Readable({ read: () => stream === this.stream && this.resumeBody() });
+            this.stream = stream;
+            this.bodyLimit = Infinity;
+        } else {
+            this.bodyLimit = typeof this.maxBodySize === 'function' ? this.maxBodySize(headers) : this.maxBodySize;
+        }
+
+        const transferEncoding = headers['transfer-encoding'];
+        if (transferEncoding !== undefined) {
+            const codings = transferEncoding.split(',').map((coding) => coding.trim().toLowerCase());
+            if (codings[codings.length - 1] !== 'chunked') {
+                throw new HttpParseError('Request body length cannot be determined');
+            }
+            // Transfer-Encoding overrides Content-Length; dropping it avoids request smuggling confusion
+            delete headers['content-length'];
+            this.chunks = [];
+            this.chunkedLength = 0;
+            this.state = 'chunk-size';
+            return true;
+        }
+
+        const contentLength = headers['content-length'];
+        if (contentLength !== undefined) {
+            const values = contentLength.split(',').map((value) => value.trim());
+            if (!values.every((value) => /^\d+$/.test(value) && value === values[0])) {
+                throw new HttpParseError('Invalid Content-Length');
+            }
+            this.bodyLength = parseInt(values[0], 10);
+            if (this.bodyLength > this.bodyLimit) {
+                throw new HttpParseError('Payload too large', 413);
+            }
+            headers['content-length'] = values[0];
+        } else {
+            this.bodyLength = 0;
+        }
+        this.state = 'body';
+        return true;
+    }
+
+    private readChunkSize(): boolean {
+        const lineEnd = this.buffer.indexOf(CRLF);
+        if (lineEnd === -1) {
+            if (this.buffer.length > 1024) {
+                throw new HttpParseError('Chunk size line too long');
+            }
+            return false;
+        }
+
+        // Chunk extensions after ';' are ignored
+        const sizeText = this.buffer.subarray(0, lineEnd).toString('latin1').split(';')[0].trim();
+        if (!/^[0-9a-fA-F]{1,8}$/.test(sizeText)) {
+            throw new HttpParseError('Invalid chunk size');
+        }
+        this.buffer = this.buffer.subarray(lineEnd + 2);
+        this.chunkRemaining = parseInt(sizeText, 16);
+        this.chunkedLength += this.chunkRemaining;
+        if (this.chunkedLength > this.bodyLimit) {
+            throw new HttpParseError('Payload too large', 413);
+        }
+        this.state = this.chunkRemaining === 0 ? 'chunk-trailers' : 'chunk-data';
+        return true;
+    }
+
+    private pushBody(piece: Buffer) {
+        if (piece.length && !this.stream!.push(Buffer.from(piece))) {
+            this.bodyBackedUp = true;
+        }
+    }
+
+    private resumeBody() {
+        if (!this.bodyBackedUp) return;
+        this.bodyBackedUp = false;
+        this.onBodyDemand?.();
+    }
+
+    // Returns the completed request, or nothing when its body was streamed
+    private finish(body: Buffer): ParsedRequest | undefined {
+        const request = this.stream ? undefined : { ...this.current!, body: Buffer.from(body) };
+        this.stream?.push(null);
+        this.stream = undefined;
+        this.bodyBackedUp = false;
+        this.current = undefined;
+        this.chunks = [];
+        this.state = 'head';
+        this.expectsContinue = false;
+        return request;
+    }
+}
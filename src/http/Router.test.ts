@@ -0,0 +1,113 @@
+import { describe, expect, test } from 'bun:test';
+import Router, { compilePath } from './Router';
+import type { ErrorMiddleware } from './SimpleExpressServer';
+import { rawRequest, start } from './testUtils';
+
+describe('compilePath', () => {
+    const params = (path: string, url: string) => {
+        const { regex, keys } = compilePath(path);
+        const match = regex.exec(url);
+        return match && Object.fromEntries(keys.map((key, i): [string, string | undefined] => [key, match[i + 1]]));
+    };
+
+    test('captures named, optional, constrained and splat params', () => {
+        expect(params('/users/:id', '/users/7/')).toEqual({ id: '7' });
+        expect(params('/posts/:year/:month?', '/posts/2024')).toEqual({ year: '2024', month: undefined });
+        expect(params('/posts/:year/:month?', '/posts/2024/05')).toEqual({ year: '2024', month: '05' });
+        expect(params('/files/:name.:ext', '/files/a.txt')).toEqual({ name: 'a', ext: 'txt' });
+        expect(params('/orders/:id(\\d+)', '/orders/abc')).toBeNull();
+        expect(params('/static/*', '/static/css/site.css')).toEqual({ 0: 'css/site.css' });
+    });
+
+    test('matches prefixes at segment boundaries only when not anchored', () => {
+        const { regex } = compilePath('/api', false);
+        expect(regex.test('/api/users')).toBe(true);
+        expect(regex.test('/api')).toBe(true);
+        expect(regex.test('/apis')).toBe(false);
+    });
+});
+
+describe('Router', () => {
+    test('mounts routers with their own base URL and params', async () => {
+        const users = new Router();
+        users.get('/:id', (req, res) => res.json({ baseUrl: req.baseUrl, path: req.path, params: req.params }));
+        const base = await start((app) => app.use('/orgs/:org/users', users));
+
+        const response = await fetch(`${base}/orgs/acme/users/7`);
+        expect(await response.json()).toEqual({ baseUrl: '/orgs/acme/users', path: '/7', params: { org: 'acme', id: '7' } });
+        expect((await fetch(`${base}/orgs/acme/usersx/7`)).status).toBe(404);
+    });
+
+    test('skips to the next route with next("route")', async () => {
+        const base = await start((app) => {
+            app.get(
+                '/items/:id',
+                (req, res, next) => next(req.params.id === 'new' ? 'route' : undefined),
+                (req, res) => res.send(`item ${req.params.id}`)
+            );
+            app.get('/items/new', (req, res) => res.send('form'));
+        });
+
+        expect(await (await fetch(`${base}/items/3`)).text()).toBe('item 3');
+        expect(await (await fetch(`${base}/items/new`)).text()).toBe('form');
+    });
+
+    test('runs param handlers once per value before the routes', async () => {
+        const loaded: string[] = [];
+        const base = await start((app) => {
+            app.param('id', (req, res, next, value) => {
+                loaded.push(value);
+                if (value === 'missing') {
+                    next(Object.assign(new Error('No such user'), { status: 404 }));
+                    return;
+                }
+                next();
+            });
+            app.get('/users/:id', (req, res, next) => next());
+            app.get('/users/:id', (req, res) => res.send(`user ${req.params.id}`));
+        });
+
+        expect(await (await fetch(`${base}/users/1`)).text()).toBe('user 1');
+        const missing = await fetch(`${base}/users/missing`);
+        expect([missing.status, await missing.text()]).toEqual([404, 'No such user']);
+        expect(loaded).toEqual(['1', 'missing']);
+    });
+
+    test('routes errors past regular handlers to error middleware', async () => {
+        const caught: ErrorMiddleware = (err, req, res, next) => res.send(`caught ${err.message}`);
+        const base = await start((app) => {
+            app.get('/fail', async () => {
+                throw new Error('broken');
+            });
+            app.use((req, res) => res.send('skipped'));
+            app.use(caught);
+        });
+
+        expect(await (await fetch(`${base}/fail`)).text()).toBe('caught broken');
+    });
+
+    test('answers 405 with Allow when only the method is wrong', async () => {
+        const base = await start((app) => {
+            app.get('/things', (req, res) => res.send('list'));
+            app.post('/things', (req, res) => res.send('created'));
+        });
+
+        const response = await fetch(`${base}/things`, { method: 'DELETE' });
+        expect(response.status).toBe(405);
+        expect(response.headers.get('Allow')).toBe('GET, POST, HEAD, OPTIONS');
+        expect((await fetch(`${base}/other`, { method: 'DELETE' })).status).toBe(404);
+    });
+
+    test('answers OPTIONS with an empty 204 listing the methods', async () => {
+        const base = await start((app) => app.get('/things', (req, res) => res.send('list')));
+
+        const reply = await rawRequest(base, 'OPTIONS /things HTTP/1.1\r\nHost: x\r\nConnection: close\r\n\r\n');
+        const [head, body] = reply.split('\r\n\r\n');
+        expect(head.split('\r\n')).toEqual([
+            'HTTP/1.1 204 No Content',
+            'Allow: GET, HEAD, OPTIONS',
+            'Connection: close',
+        ]);
+        expect(body).toBe('');
+    });
+});
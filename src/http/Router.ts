@@ -0,0 +1,278 @@
+import type { ErrorMiddleware, Middleware, NextFunction, Request, Response } from './SimpleExpressServer';
+
+export type ParamHandler = (
+    req: Request,
+    res: Response,
+    next: NextFunction,
+    value: string,
+    name: string
+) => void | Promise<void>;
+
+type Handler = Middleware | ErrorMiddleware | Router;
+
+interface Layer {
+    // Undefined for `use` layers, which match path prefixes and any method
+    method?: string;
+    regex: RegExp;
+    keys: string[];
+    handlers: Handler[];
+}
+
+interface MethodState {
+    allowed: Set<string>;
+    matched: boolean;
+}
+
+const methodStates = new WeakMap<Request, MethodState>();
+
+// Compiles an Express-style path into a regex. Supports `:name`, optional `:name?`,
+// constrained `:id(\\d+)` (use non-capturing groups inside constraints) and `*` splats,
+// which are exposed as numbered params ('0', '1', ...). With `end` false the path only
+// has to match a prefix ending at a segment boundary, as needed for mounting.
+export function compilePath(path: string, end: boolean = true) {
+    const keys: string[] = [];
+    let splats = 0;
+    const token = /(\/?):(\w+)(\((?:\\.|[^\\()])+\))?(\?)?|(\/?)\*|([.+?^${}()|[\]\\])/g;
+
+    let pattern = path.replace(token, (match, slash, key, constraint, optional, splatSlash, special) => {
+        if (special) {
+            return `\\${special}`;
+        }
+        if (key) {
+            keys.push(key);
+            const capture = constraint || '([^/]+?)';
+            return optional ? `(?:${slash}${capture})?` : `${slash}${capture}`;
+        }
+        keys.push(String(splats++));
+        return `${splatSlash}(.*)`;
+    });
+
+    if (end) {
+        pattern = `^${pattern}/?$`;
+    } else {
+        pattern = `^${pattern.replace(/\/$/, '')}(?=/|$)`;
+    }
+    return { regex: new RegExp(pattern), keys };
+}
+
+class Router {
+    protected stack: Layer[] = [];
+    private paramHandlers: { [name: string]: ParamHandler[] } = {};
+
+    // Methods allowed for the request's path when no route matched its method
+    static allowedMethods(req: Request): string[] {
+        const state = methodStates.get(req);
+        if (!state || state.matched || !state.allowed.size) return [];
+        if (state.allowed.has('GET')) state.allowed.add('HEAD');
+        state.allowed.add('OPTIONS');
+        return [...state.allowed];
+    }
+
+    use(...handlers: Middleware[]): this;
+    use(path: string, ...handlers: (Middleware | Router)[]): this;
+    use(...handlers: (Middleware | ErrorMiddleware | Router)[]): this;
+    use(path: string, ...handlers: (Middleware | ErrorMiddleware | Router)[]): this;
+    use(...args: (string | Handler)[]) {
+        const path = typeof args[0] === 'string' ? (args.shift() as string) : '/';
+        const { regex, keys } = compilePath(path, false);
+        for (const handler of args as Handler[]) {
+            this.stack.push({ regex, keys, handlers: [handler] });
+        }
+        return this;
+    }
+
+    route(method: string, path: string, ...handlers: Middleware[]) {
+        const { regex, keys } = compilePath(path);
+        this.stack.push({ method: method.toUpperCase(), regex, keys, handlers });
+        return this;
+    }
+
+    all(path: string, ...handlers: Middleware[]) {
+        return this.route('ALL', path, ...handlers);
+    }
+
+    get(path: string, ...handlers: Middleware[]) {
+        return this.route('GET', path, ...handlers);
+    }
+
+    post(path: string, ...handlers: Middleware[]) {
+        return this.route('POST', path, ...handlers);
+    }
+
+    put(path: string, ...handlers: Middleware[]) {
+        return this.route('PUT', path, ...handlers);
+    }
+
+    delete(path: string, ...handlers: Middleware[]) {
+        return this.route('DELETE', path, ...handlers);
+    }
+
+    patch(path: string, ...handlers: Middleware[]) {
+        return this.route('PATCH', path, ...handlers);
+    }
+
+    options(path: string, ...handlers: Middleware[]) {
+        return this.route('OPTIONS', path, ...handlers);
+    }
+
+    // Runs before the handlers of any route in this router that declares `:name`,
+    // once per request and value
+    param(name: string, handler: ParamHandler) {
+        (this.paramHandlers[name] ||= []).push(handler);
+        return this;
+    }
+
+    handle(req: Request, res: Response, done: NextFunction) {
+        const { path, baseUrl, params } = req;
+        const paramsCalled = new Map<string, string>();
+        let state = methodStates.get(req);
+        if (!state) {
+            state = { allowed: new Set(), matched: false };
+            methodStates.set(req, state);
+        }
+        let index = 0;
+
+        const next: NextFunction = (err?: any) => {
+            // Mounted layers rewrite these; every step starts from this router's view again
+            req.path = path;
+            req.baseUrl = baseUrl;
+            req.params = params;
+
+            const layer = this.stack[index++];
+            if (!layer) {
+                done(err === 'route' ? undefined : err);
+                return;
+            }
+            if (err === 'route') err = undefined;
+
+            const match = layer.regex.exec(path);
+            if (!match) {
+                next(err);
+                return;
+            }
+
+            if (layer.method) {
+                // Routes never handle errors; those go to error middleware
+                if (err !== undefined) {
+                    next(err);
+                    return;
+                }
+                if (!Router.methodMatches(layer.method, req.method)) {
+                    state!.allowed.add(layer.method);
+                    next();
+                    return;
+                }
+                if (layer.method !== 'ALL') {
+                    state!.matched = true;
+                }
+            }
+
+            const layerParams: { [key: string]: string } = {};
+            layer.keys.forEach((key, i) => {
+                if (match[i + 1] !== undefined) layerParams[key] = match[i + 1];
+            });
+            req.params = { ...params, ...layerParams };
+
+            if (!layer.method) {
+                req.baseUrl = baseUrl + match[0];
+                req.path = path.substring(match[0].length) || '/';
+                if (!req.path.startsWith('/')) req.path = `/${req.path}`;
+            }
+
+            this.runParams(layer, req, res, paramsCalled, (paramErr) => {
+                if (paramErr !== undefined) {
+                    next(paramErr);
+                    return;
+                }
+                this.runHandlers(layer.handlers, err, req, res, next);
+            });
+        };
+        next();
+    }
+
+    private static methodMatches(layerMethod: string, method: string) {
+        return layerMethod === 'ALL' || layerMethod === method || (layerMethod === 'GET' && method === 'HEAD');
+    }
+
+    private runParams(
+        layer: Layer,
+        req: Request,
+        res: Response,
+        called: Map<string, string>,
+        done: NextFunction
+    ) {
+        const pending: [string, string, ParamHandler][] = [];
+        if (layer.method) {
+            for (const key of layer.keys) {
+                const value = req.params[key];
+                if (value === undefined || called.get(key) === value) continue;
+                called.set(key, value);
+                for (const handler of this.paramHandlers[key] || []) {
+                    pending.push([key, value, handler]);
+                }
+            }
+        }
+
+        let index = 0;
+        const step: NextFunction = (err?: any) => {
+            const entry = pending[index++];
+            if (err !== undefined || !entry) {
+                done(err);
+                return;
+            }
+            const [key, value, handler] = entry;
+            Router.invoke(() => handler(req, res, step, value, key), step);
+        };
+        step();
+    }
+
+    private runHandlers(handlers: Handler[], err: any, req: Request, res: Response, next: NextFunction) {
+        let index = 0;
+        const step: NextFunction = (stepErr?: any) => {
+            const handler = handlers[index++];
+            if (stepErr === 'route' || !handler) {
+                next(stepErr);
+                return;
+            }
+
+            if (handler instanceof Router) {
+                // A mounted router only takes part in the regular chain
+                if (stepErr !== undefined) {
+                    next(stepErr);
+                } else {
+                    handler.handle(req, res, step);
+                }
+                return;
+            }
+
+            // Like Express, a handler declaring four arguments is treated as error middleware
+            const handlesErrors = handler.length === 4;
+            if (handlesErrors !== (stepErr !== undefined)) {
+                step(stepErr);
+                return;
+            }
+            Router.invoke(
+                () =>
+                    handlesErrors
+                        ? (handler as ErrorMiddleware)(stepErr, req, res, step)
+                        : (handler as Middleware)(req, res, step),
+                step
+            );
+        };
+        step(err);
+    }
+
+    // Forwards synchronous throws and rejected promises to `next`
+    private static invoke(call: () => void | Promise<void>, next: NextFunction) {
+        try {
+            const result = call();
+            if (result && typeof result.then === 'function') {
+                result.then(undefined, (rejection) => next(rejection ?? new Error('Handler rejected')));
+            }
+        } catch (thrown) {
+            next(thrown ?? new Error('Handler threw'));
+        }
+    }
+}
+
+export default Router;
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'bun:test';
+import { rawRequest, start } from './testUtils';
+
+describe('request parsing', () => {
+    test('answers 400 to malformed targets and keeps running', async () => {
+        const base = await start((app) => app.get('/', (req, res) => res.send('ok')));
+
+        const reply = await rawRequest(base, 'GET http://[::1/ HTTP/1.1\r\nHost: x\r\n\r\n');
+        expect(reply.startsWith('HTTP/1.1 400')).toBe(true);
+        expect(await (await fetch(base)).text()).toBe('ok');
+    });
+
+    test('parses the path and repeated query keys', async () => {
+        const base = await start((app) => app.get('/items/:id', (req, res) => res.json({ path: req.path, query: req.query })));
+
+        const response = await fetch(`${base}/items/a%20b?tag=x&tag=y&q=1+2&empty`);
+        expect(await response.json()).toEqual({ path: '/items/a b', query: { tag: ['x', 'y'], q: '1 2', empty: '' } });
+        expect(await rawRequest(base, 'GET /items/%E0%A4%A HTTP/1.1\r\nConnection: close\r\n\r\n')).toStartWith(
+            'HTTP/1.1 400'
+        );
+    });
+});
+
+describe('errorHandler option', () => {
+    test('falls back to the built-in handler when it calls next', async () => {
+        const seen: string[] = [];
+        const base = await start(
+            (app) => {
+                app.get('/teapot', () => {
+                    throw Object.assign(new Error('short and stout'), { status: 418 });
+                });
+                app.get('/gone', () => {
+                    throw Object.assign(new Error('gone'), { status: 410 });
+                });
+            },
+            {
+                errorHandler: (err, req, res, next) => {
+                    seen.push(err.message);
+                    next(req.path === '/gone' ? Object.assign(new Error('replaced'), { status: 404 }) : undefined);
+                },
+            }
+        );
+
+        const teapot = await fetch(`${base}/teapot`);
+        expect([teapot.status, await teapot.text()]).toEqual([418, 'short and stout']);
+        const gone = await fetch(`${base}/gone`);
+        expect([gone.status, await gone.text()]).toEqual([404, 'replaced']);
+        expect(seen).toEqual(['short and stout', 'gone']);
+    });
+});
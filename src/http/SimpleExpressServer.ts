@@ -1,15 +1,36 @@
 import { createServer, Socket } from 'net';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as url from 'url';
 import * as querystring from 'querystring';
 import * as ejs from 'ejs';
+import type { Readable } from 'stream';
+import { Connection } from './Connection';
+import type { ConnectionOptions, ResponseSlot } from './Connection';
+import type { ParsedRequest } from './HttpParser';
+import Router from './Router';
+import { HttpError } from './HttpError';
+import { isMultipart, removeUploads } from './multipart';
+import type { UploadedFile } from './multipart';
+import { getMimeType, sendFile } from './sendFile';
+import type { SendFileOptions } from './sendFile';
 
 export interface Request {
     method: string;
     url: string;
+    // Decoded pathname relative to the router currently handling the request
+    path: string;
+    // Path prefix the current router was mounted on
+    baseUrl: string;
+    httpVersion: string;
     headers: { [key: string]: string };
+    rawHeaders: [string, string][];
     body: any;
+    // The undecoded body; empty for multipart requests, whose body is streamed instead
+    rawBody: Buffer;
+    // Multipart bodies arrive here while the handlers already run; the `multipart()` middleware reads it
+    bodyStream?: Readable;
+    // Filled by the `multipart()` middleware; disk files left in place are deleted after the response
+    files: UploadedFile[];
     params: { [key: string]: string };
     query: { [key: string]: string | string[] };
     socket: Socket;
@@ -19,25 +40,54 @@ export interface Response {
     socket: Socket;
     statusCode: number;
     headers: { [key: string]: string };
+    headersSent: boolean;
+    // Set once the response has been completely handed to the connection
+    finished: boolean;
     send: (body: string | Buffer) => void;
     json: (data: any) => void;
     render: (view: string, data?: any) => void;
     setHeader: (key: string, value: string) => void;
+    // Without a Content-Length header the body is sent with chunked transfer encoding.
+    // Returns false when the caller should hold off until the socket drains.
+    write: (chunk: string | Buffer) => boolean;
+    end: (chunk?: string | Buffer) => void;
+    // Pipes a readable into the response with backpressure and ends it afterwards
+    stream: (readable: Readable) => void;
+    // Errors (404 for missing files) go to `callback`, or to the error handler without one
+    sendFile: (filePath: string, options?: SendFileOptions, callback?: (err?: any) => void) => void;
 }
 
-export type Middleware = (req: Request, res: Response, next: () => void) => void;
+export type NextFunction = (err?: any) => void;
+export type Middleware = (req: Request, res: Response, next: NextFunction) => void | Promise<void>;
+export type ErrorMiddleware = (err: any, req: Request, res: Response, next: NextFunction) => void | Promise<void>;
 export type Plugin = (app: SimpleExpressServer) => void;
 
-class SimpleExpressServer {
-    private middlewares: Middleware[] = [];
-    // Updated routes structure to include regex and keys
-    private routes: {
-        [method: string]: { path: string; handler: Middleware; regex: RegExp; keys: string[] }[];
-    } = {};
+export interface ServerOptions extends ConnectionOptions {
+    // Replaces the built-in handler that runs when no error middleware answered
+    errorHandler?: ErrorMiddleware;
+    // Maximum request body size in bytes (default 1 MiB); larger bodies get 413. Multipart bodies
+    // are streamed instead and limited by the `multipart()` options.
+    limit?: number;
+}
+
+// Repeated keys become arrays, like `querystring.parse`
+function parseQuery(params: URLSearchParams) {
+    const query: { [key: string]: string | string[] } = Object.create(null);
+    for (const [key, value] of params) {
+        const existing = query[key];
+        query[key] = existing === undefined ? value : [...(Array.isArray(existing) ? existing : [existing]), value];
+    }
+    return query;
+}
+
+class SimpleExpressServer extends Router {
     private port: number;
+    private serverOptions: ServerOptions;
 
-    constructor(port: number) {
+    constructor(port: number, options: ServerOptions = {}) {
+        super();
         this.port = port;
+        this.serverOptions = options;
     }
 
     addPlugin(...plugins: Plugin[]) {
@@ -52,107 +102,20 @@ class SimpleExpressServer {
         }
     }
 
-    use(middleware: Middleware) {
-        this.middlewares.push(middleware);
-    }
-
     static(dir: string) {
         this.use((req, res, next) => {
-            const filePath = path.join(dir, decodeURIComponent(req.url));
-            fs.stat(filePath, (err, stats) => {
-                if (!err && stats.isFile()) {
-                    fs.readFile(filePath, (err, data) => {
-                        if (err) {
-                            next();
-                        } else {
-                            const ext = path.extname(filePath);
-                            res.setHeader('Content-Type', SimpleExpressServer.getMimeType(ext));
-                            res.send(data);
-                        }
-                    });
-                } else {
-                    next();
-                }
+            if (req.method !== 'GET' && req.method !== 'HEAD') {
+                next();
+                return;
+            }
+            res.sendFile(req.path, { root: dir }, (err) => {
+                if (!err) return;
+                // Unknown files fall through to the routes
+                next(err.status === 404 || err.status === 403 ? undefined : err);
             });
         });
     }
 
-    private static getMimeType(ext: string): string {
-        const mimeTypes: { [key: string]: string } = {
-            '.html': 'text/html',
-            '.css': 'text/css',
-            '.js': 'application/javascript',
-            '.png': 'image/png',
-            '.jpg': 'image/jpeg',
-            '.jpeg': 'image/jpeg',
-            '.gif': 'image/gif',
-            '.svg': 'image/svg+xml',
-            '.json': 'application/json',
-            // Add more MIME types as needed
-        };
-        return mimeTypes[ext.toLowerCase()] || 'application/octet-stream';
-    }
-
-    route(method: string, path: string, handler: Middleware) {
-        this.addRoute(method.toUpperCase(), path, handler);
-    }
-
-    get(path: string, handler: Middleware) {
-        this.addRoute('GET', path, handler);
-    }
-
-    post(path: string, handler: Middleware) {
-        this.addRoute('POST', path, handler);
-    }
-
-    put(path: string, handler: Middleware) {
-        this.addRoute('PUT', path, handler);
-    }
-
-    delete(path: string, handler: Middleware) {
-        this.addRoute('DELETE', path, handler);
-    }
-
-    patch(path: string, handler: Middleware) {
-        this.addRoute('PATCH', path, handler);
-    }
-
-    // Updated addRoute to compile the path into regex and store keys
-    private addRoute(method: string, path: string, handler: Middleware) {
-        if (!this.routes[method]) {
-            this.routes[method] = [];
-        }
-        const { regex, keys } = this.compilePath(path);
-        this.routes[method].push({ path, handler, regex, keys });
-    }
-
-    // New method to compile paths with parameters into regex patterns
-    private compilePath(path: string) {
-        const keys: string[] = [];
-        const regexPath = path.replace(/:([^\/]+)/g, (match, key) => {
-            keys.push(key);
-            return '([^\/]+)';
-        });
-        const regex = new RegExp(`^${regexPath}$`);
-        return { regex, keys };
-    }
-
-    // Updated findRoute to match routes using regex and extract params
-    private findRoute(method: string, pathname: string) {
-        const routes = this.routes[method] || [];
-        for (const route of routes) {
-            const match = route.regex.exec(pathname);
-            if (match) {
-                const params: { [key: string]: string } = {};
-                route.keys.forEach((key, index) => {
-                    params[key] = match[index + 1];
-                });
-                return { ...route, params };
-            }
-        }
-        return null;
-    }
-
     listen(callback?: () => void) {
         const server = createServer((socket) => this.handleConnection(socket));
 
@@ -176,73 +139,129 @@ class SimpleExpressServer {
     }
 
     private handleConnection(socket: Socket) {
-        let requestData = '';
-        socket.on('data', (data) => {
-            requestData += data.toString();
-
-            if (requestData.indexOf('\r\n\r\n') !== -1) {
-                const contentLengthMatch = requestData.match(/Content-Length: (\d+)/i);
-                const contentLength = contentLengthMatch ? parseInt(contentLengthMatch[1], 10) : 0;
-
-                const bodyStartIndex = requestData.indexOf('\r\n\r\n') + 4;
-                const bodyData = requestData.substring(bodyStartIndex);
-
-                if (Buffer.byteLength(bodyData) >= contentLength) {
-                    this.handleRequest(socket, requestData);
-                    requestData = '';
-                }
-            }
-        });
+        new Connection(
+            socket,
+            {
+                ...this.serverOptions,
+                maxBodySize: this.serverOptions.limit ?? 1024 * 1024,
+                streamBody: (headers) => isMultipart(headers['content-type']),
+            },
+            (request, slot) => this.handleRequest(socket, request, slot),
+            (err, slot) => this.sendResponse(slot, err.statusCode, { 'Content-Type': 'text/plain' }, err.message)
+        );
 
         socket.on('error', (err) => {
             console.error('Socket error:', err);
         });
     }
 
-    private handleRequest(socket: Socket, requestData: string) {
-        const [headerPart, bodyPart = ''] = requestData.split('\r\n\r\n');
-        const headerLines = headerPart.split('\r\n');
-        const [requestLine, ...headerFields] = headerLines;
-
-        const [method, fullUrl, protocol] = requestLine.split(' ');
-
-        if (!method || !fullUrl || !protocol) {
-            this.sendResponse(socket, 400, { 'Content-Type': 'text/plain' }, 'Bad Request');
-            return;
-        }
-
-        const parsedUrl = url.parse(fullUrl, true);
-        const pathname = decodeURIComponent(parsedUrl.pathname || '/');
-        const query = parsedUrl.query;
-
-        const headers: { [key: string]: string } = {};
-        headerFields.forEach((field) => {
-            const separatorIndex = field.indexOf(':');
-            if (separatorIndex !== -1) {
-                const key = field.substring(0, separatorIndex).trim().toLowerCase();
-                const value = field.substring(separatorIndex + 1).trim();
-                headers[key] = value;
-            }
-        });
+    private handleRequest(socket: Socket, request: ParsedRequest, slot: ResponseSlot) {
+        const { method, url: fullUrl, headers } = request;
 
         const req: Request = {
             method,
             url: fullUrl,
+            path: '/',
+            baseUrl: '',
+            httpVersion: request.httpVersion,
             headers,
+            rawHeaders: request.rawHeaders,
             body: null,
+            rawBody: request.body,
+            bodyStream: request.bodyStream,
+            files: [],
             params: {},
-            query: Object.fromEntries(Object.entries(query).filter(([_, v]) => v !== undefined)) as {
-                [key: string]: string | string[];
-            },
+            query: {},
             socket,
         };
 
+        // Uploads nobody moved away are removed once the response is done or the client is gone
+        const removeFiles = () => {
+            socket.off('close', removeFiles);
+            removeUploads(req.files);
+        };
+        socket.once('close', removeFiles);
+
+        // HEAD keeps the original method here even when it is served by a GET route
+        const suppressBody = method === 'HEAD';
+        let chunked = false;
+        const hasHeader = (name: string) => Object.keys(res.headers).some((key) => key.toLowerCase() === name);
+        const startResponse = () => {
+            res.headersSent = true;
+            const bodyless = res.statusCode === 204 || res.statusCode === 304 || res.statusCode < 200;
+            if (!bodyless && !hasHeader('content-length')) {
+                if (req.httpVersion === '1.0') {
+                    // HTTP/1.0 clients know no chunked encoding; closing the connection ends the body
+                    slot.keepAlive = false;
+                } else {
+                    res.setHeader('Transfer-Encoding', 'chunked');
+                    chunked = true;
+                }
+            }
+            this.writeHead(slot, res.statusCode, res.headers);
+        };
+
         const res: Response = {
             socket,
             statusCode: 200,
             headers: {},
+            headersSent: false,
+            finished: false,
             send: (body: string | Buffer) => {
-                this.sendResponse(socket, res.statusCode, res.headers, body, req.method === 'HEAD');
+                if (res.headersSent) {
+                    console.error(`Response for ${req.method} ${req.url} was already sent`);
+                    return;
+                }
+                res.setHeader('Content-Length', Buffer.byteLength(body).toString());
+                res.end(body);
+            },
+            write: (chunk: string | Buffer) => {
+                if (res.finished) return false;
+                if (!res.headersSent) startResponse();
+                const length = Buffer.byteLength(chunk);
+                if (suppressBody || !length) return true;
+                if (!chunked) return slot.write(chunk);
+                slot.write(`${length.toString(16)}\r\n`);
+                slot.write(chunk);
+                return slot.write('\r\n');
+            },
+            end: (chunk?: string | Buffer) => {
+                if (res.finished) return;
+                if (!res.headersSent && chunk !== undefined && !hasHeader('content-length')) {
+                    res.setHeader('Content-Length', Buffer.byteLength(chunk).toString());
+                }
+                if (chunk !== undefined) {
+                    res.write(chunk);
+                } else if (!res.headersSent) {
+                    startResponse();
+                }
+                if (chunked && !suppressBody) {
+                    slot.write('0\r\n\r\n');
+                }
+                res.finished = true;
+                slot.end();
+                removeFiles();
+            },
+            stream: (readable: Readable) => {
+                const abort = () => readable.destroy();
+                socket.once('close', abort);
+                readable.on('data', (chunk: string | Buffer) => {
+                    if (!res.write(chunk)) {
+                        readable.pause();
+                        slot.onDrain(() => readable.resume());
+                    }
+                });
+                readable.once('end', () => {
+                    socket.off('close', abort);
+                    res.end();
+                });
+                readable.once('error', (err) => {
+                    socket.off('close', abort);
+                    this.handleError(err, req, res);
+                });
+            },
+            sendFile: (filePath: string, options: SendFileOptions = {}, callback?: (err?: any) => void) => {
+                sendFile(req, res, filePath, options, callback || ((err) => err && this.handleError(err, req, res)));
             },
             json: (data: any) => {
                 res.setHeader('Content-Type', 'application/json');
@@ -269,7 +288,7 @@ class SimpleExpressServer {
                                     res.setHeader('Content-Type', 'text/html');
                                 } else {
                                     rendered = content;
-                                    res.setHeader('Content-Type', SimpleExpressServer.getMimeType(ext));
+                                    res.setHeader('Content-Type', getMimeType(ext));
                                 }
                                 res.send(rendered);
                             }
@@ -289,100 +308,142 @@ class SimpleExpressServer {
             },
         };
 
-        req.body = this.parseRequestBody(bodyPart, headers['content-type']);
+        try {
+            // Origin-form targets get a base prefixed rather than resolved, so `//x` stays a path
+            const parsedUrl = new URL(fullUrl.startsWith('/') ? `http://localhost${fullUrl}` : fullUrl);
+            req.path = decodeURIComponent(parsedUrl.pathname);
+            req.query = parseQuery(parsedUrl.searchParams);
+        } catch (err) {
+            this.handleError(new HttpError(400, 'Malformed URL'), req, res);
+            return;
+        }
 
-        const middlewares = [...this.middlewares];
-        let route = this.findRoute(method, pathname);
+        try {
+            this.parseRequestBody(req);
+        } catch (err) {
+            this.handleError(err, req, res);
+            return;
+        }
+        this.handle(req, res, (err) => this.finalHandler(err, req, res));
+    }
 
-        if (!route && method === 'HEAD') {
-            route = this.findRoute('GET', pathname);
-            if (route) {
-                req.method = 'GET';
-                res.send = (body: string | Buffer) => {
-                    this.sendResponse(socket, res.statusCode, res.headers, body, true);
-                };
-            }
+    private finalHandler(err: any, req: Request, res: Response) {
+        if (err !== undefined) {
+            this.handleError(err, req, res);
+            return;
         }
 
-        if (route) {
-            req.params = route.params; // Assign extracted params to req.params
-            middlewares.push(route.handler);
-        } else {
-            middlewares.push((req, res) => {
-                res.statusCode = 404;
-                res.send('Not Found');
-            });
+        // The path exists, just not for this method
+        const allowed = Router.allowedMethods(req);
+        if (allowed.length) {
+            res.setHeader('Allow', allowed.join(', '));
+            if (req.method === 'OPTIONS') {
+                res.statusCode = 204;
+                res.end();
+            } else {
+                res.statusCode = 405;
+                res.setHeader('Content-Type', 'text/plain');
+                res.send('Method Not Allowed');
+            }
+            return;
         }
 
-        this.executeMiddlewares(middlewares, req, res);
+        res.statusCode = 404;
+        res.send('Not Found');
     }
 
-    private parseRequestBody(body: string, contentType: string | undefined): any {
-        if (!contentType) {
-            return body;
-        }
+    private parseRequestBody(req: Request) {
+        const raw = req.rawBody;
+        const contentType = req.headers['content-type'];
 
-        if (contentType.includes('application/json')) {
+        // Decode only once the whole body is in, so multi-byte characters split across packets survive
+        const body = raw.toString('utf8');
+        if (!contentType) {
+            req.body = body;
+        } else if (contentType.includes('application/json')) {
             try {
-                return JSON.parse(body);
+                req.body = body ? JSON.parse(body) : null;
             } catch (err) {
-                return null;
+                throw new HttpError(400, 'Invalid JSON body');
             }
         } else if (contentType.includes('application/x-www-form-urlencoded')) {
-            return querystring.parse(body);
-        } else if (contentType.includes('text/plain')) {
-            return body;
+            req.body = querystring.parse(body);
+        } else if (contentType.startsWith('text/')) {
+            req.body = body;
         } else {
-            return body;
+            // Binary payloads are handed over untouched
+            req.body = raw;
         }
     }
 
-    private executeMiddlewares(middlewares: Middleware[], req: Request, res: Response) {
-        const next = () => {
-            if (middlewares.length > 0) {
-                const middleware = middlewares.shift();
-                if (middleware) {
-                    try {
-                        middleware(req, res, next);
-                    } catch (err) {
-                        console.error('Middleware error:', err);
-                        res.statusCode = 500;
-                        res.send('Internal Server Error');
-                    }
-                }
+    private handleError(err: any, req: Request, res: Response) {
+        const handler = this.serverOptions.errorHandler || this.defaultErrorHandler;
+        // A configured handler that passes the error on falls back to the built-in one
+        const next: NextFunction = (failure?: any) => this.defaultErrorHandler(failure ?? err, req, res);
+        try {
+            const result = handler(err, req, res, next);
+            if (result && typeof result.then === 'function') {
+                result.then(undefined, (failure) => this.defaultErrorHandler(failure, req, res));
             }
-        };
-        next();
+        } catch (failure) {
+            this.defaultErrorHandler(failure, req, res);
+        }
+    }
+
+    private defaultErrorHandler = (err: any, req: Request, res: Response) => {
+        const status = Number(err?.status || err?.statusCode) || 500;
+        if (status >= 500) {
+            console.error('Middleware error:', err);
+        }
+        if (res.headersSent) {
+            // A half-written response can only be aborted; a complete one needs nothing more
+            if (!res.finished) {
+                req.socket.destroy();
+            }
+            return;
+        }
+
+        // Server error details stay out of responses
+        const message = status < 500 && err?.message ? err.message : this.getStatusMessage(status);
+        res.statusCode = status;
+        res.headers = {};
+
+        const accept = (req.headers['accept'] || '').toLowerCase();
+        const jsonIndex = accept.indexOf('json');
+        const htmlIndex = accept.indexOf('html');
+        if (jsonIndex !== -1 && (htmlIndex === -1 || jsonIndex < htmlIndex)) {
+            res.json({ error: { status, message } });
+        } else if (htmlIndex !== -1) {
+            const escaped = String(message).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+            res.setHeader('Content-Type', 'text/html; charset=utf-8');
+            res.send(`<!DOCTYPE html>\n<html><head><title>${status}</title></head><body><h1>${status}</h1><p>${escaped}</p></body></html>`);
+        } else {
+            res.setHeader('Content-Type', 'text/plain');
+            res.send(message);
+        }
+    };
+
+    private writeHead(slot: ResponseSlot, statusCode: number, headers: { [key: string]: string }) {
+        let head = `HTTP/1.1 ${statusCode} ${this.getStatusMessage(statusCode)}\r\n`;
+        headers['Connection'] = slot.keepAlive ? 'keep-alive' : 'close';
+
+        for (const [key, value] of Object.entries(headers)) {
+            head += `${key}: ${value}\r\n`;
+        }
+        head += '\r\n';
+        slot.write(head);
     }
 
     private sendResponse(
-        socket: Socket,
+        slot: ResponseSlot,
         statusCode: number,
         headers: { [key: string]: string },
-        body: string | Buffer,
-        suppressBody: boolean = false
+        body: string | Buffer
     ) {
-        let response = `HTTP/1.1 ${statusCode} ${this.getStatusMessage(statusCode)}\r\n`;
         headers['Content-Length'] = Buffer.byteLength(body).toString();
-        headers['Connection'] = 'close';
-
-        for (const [key, value] of Object.entries(headers)) {
-            response += `${key}: ${value}\r\n`;
-        }
-        response += '\r\n';
-
-        if (!suppressBody) {
-            if (Buffer.isBuffer(body)) {
-                socket.write(response);
-                socket.write(body);
-            } else {
-                response += body;
-                socket.write(response);
-            }
-        } else {
-            socket.write(response);
-        }
-        socket.end();
+        this.writeHead(slot, statusCode, headers);
+        slot.write(body);
+        slot.end();
     }
 
     private getStatusMessage(statusCode: number) {
@@ -390,11 +451,21 @@ class SimpleExpressServer {
             200: 'OK',
             201: 'Created',
             204: 'No Content',
+            206: 'Partial Content',
+            304: 'Not Modified',
             400: 'Bad Request',
+            401: 'Unauthorized',
+            403: 'Forbidden',
             404: 'Not Found',
             405: 'Method Not Allowed',
+            408: 'Request Timeout',
+            413: 'Payload Too Large',
+            415: 'Unsupported Media Type',
+            416: 'Range Not Satisfiable',
             429: 'Too Many Requests',
+            431: 'Request Header Fields Too Large',
             500: 'Internal Server Error',
+            505: 'HTTP Version Not Supported',
         };
         return statusMessages[statusCode] || 'Unknown Status';
     }
@@ -404,4 +475,6 @@ class SimpleExpressServer {
     }
 }
 
+export { HttpError, Router };
+export { multipart } from './multipart';
 export default SimpleExpressServer;
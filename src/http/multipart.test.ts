@@ -0,0 +1,179 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { multipart, parseMultipart, sanitizeFilename } from './multipart';
+import type { MultipartOptions } from './multipart';
+import { sleep } from '../testUtils';
+import { start } from './testUtils';
+
+const uploadRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'uploads-'));
+
+afterAll(() => {
+    fs.rmSync(uploadRoot, { recursive: true, force: true });
+});
+
+const uploadDir = () => fs.mkdtempSync(path.join(uploadRoot, 'dir-'));
+
+const form = (entries: [string, string | Blob, string?][]) => {
+    const data = new FormData();
+    for (const [name, value, filename] of entries) {
+        if (typeof value === 'string') data.append(name, value);
+        else data.append(name, value, filename);
+    }
+    return data;
+};
+
+// An app that answers POST /upload with what the middleware parsed
+const uploadServer = (options: MultipartOptions, inspect?: (file: any) => any) =>
+    start((app) => {
+        app.post('/upload', multipart(options), (req, res) =>
+            res.json({
+                fields: req.body,
+                files: req.files.map((file) => ({
+                    fieldName: file.fieldName,
+                    originalName: file.originalName,
+                    mimeType: file.mimeType,
+                    size: file.size,
+                    ...inspect?.(file),
+                })),
+            })
+        );
+    });
+
+describe('parseMultipart', () => {
+    const boundary = 'XyZ';
+    const body = Buffer.from(
+        'preamble\r\n--XyZ\r\nContent-Disposition: form-data; name="a"\r\n\r\n1\r\n' +
+            '--XyZ\r\nContent-Disposition: form-data; name="a"\r\n\r\n2\r\n' +
+            '--XyZ\r\nContent-Disposition: form-data; name="doc"; filename="../../etc/passwd"\r\n' +
+            'Content-Type: text/plain\r\n\r\nx--XyZ\r\n--XyY\r\n--XyZ--\r\nepilogue'
+    );
+
+    test('splits fields and files', async () => {
+        const result = await parseMultipart(body, `multipart/form-data; boundary=${boundary}`);
+        expect(result.fields).toEqual({ a: ['1', '2'] });
+        expect(result.files).toHaveLength(1);
+        expect(result.files[0]).toMatchObject({ fieldName: 'doc', originalName: 'passwd', mimeType: 'text/plain', size: 13 });
+        expect(result.files[0].buffer!.toString()).toBe('x--XyZ\r\n--XyY');
+    });
+
+    test('gives the same result however the body is split', async () => {
+        const bytes = async function* () {
+            for (let i = 0; i < body.length; i++) yield body.subarray(i, i + 1);
+        };
+        const result = await parseMultipart(bytes(), `multipart/form-data; boundary="${boundary}"`);
+        expect(result.fields).toEqual({ a: ['1', '2'] });
+        expect(result.files[0].buffer!.toString()).toBe('x--XyZ\r\n--XyY');
+    });
+
+    test('rejects bodies that end early or lack a boundary', async () => {
+        await expect(parseMultipart(body.subarray(0, 60), 'multipart/form-data; boundary=XyZ')).rejects.toMatchObject({
+            status: 400,
+        });
+        await expect(parseMultipart(body, 'multipart/form-data')).rejects.toMatchObject({ status: 400 });
+    });
+
+    test('limits field sizes', async () => {
+        await expect(parseMultipart(body, 'multipart/form-data; boundary=XyZ', { maxFieldSize: 0 })).rejects.toMatchObject({
+            status: 413,
+        });
+    });
+});
+
+describe('sanitizeFilename', () => {
+    test('strips paths, control characters and leading dots', () => {
+        expect(sanitizeFilename('C:\\temp\\..\\report.pdf')).toBe('report.pdf');
+        expect(sanitizeFilename('..hidden<>.txt')).toBe('hidden.txt');
+        expect(sanitizeFilename('...')).toBe('file');
+    });
+});
+
+describe('multipart()', () => {
+    test('parses fields and memory uploads', async () => {
+        const base = await uploadServer({}, (file) => ({ text: file.buffer.toString() }));
+        const body = form([
+            ['title', 'Report'],
+            ['doc', new Blob(['hello'], { type: 'text/plain' }), 'notes.txt'],
+        ]);
+
+        const response = await fetch(`${base}/upload`, { method: 'POST', body });
+        expect(await response.json()).toEqual({
+            fields: { title: 'Report' },
+            files: [{ fieldName: 'doc', originalName: 'notes.txt', mimeType: 'text/plain', size: 5, text: 'hello' }],
+        });
+    });
+
+    test('streams disk uploads past the size the body used to be buffered to', async () => {
+        const dir = uploadDir();
+        const size = 12 * 1024 * 1024;
+        const base = await uploadServer({ storage: 'disk', uploadDir: dir, maxFileSize: 16 * 1024 * 1024 }, (file) => ({
+            onDisk: fs.statSync(file.path).size,
+            inDir: path.dirname(file.path) === dir,
+        }));
+
+        const body = form([['video', new Blob([new Uint8Array(size)], { type: 'video/mp4' }), 'clip.mp4']]);
+        const response = await fetch(`${base}/upload`, { method: 'POST', body });
+        expect((await response.json()).files).toEqual([
+            { fieldName: 'video', originalName: 'clip.mp4', mimeType: 'video/mp4', size, onDisk: size, inDir: true },
+        ]);
+
+        // Uploads nobody moved away are removed after the response
+        await sleep(50);
+        expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    test('keeps files the handler moved away', async () => {
+        const dir = uploadDir();
+        const kept = path.join(uploadRoot, 'kept.txt');
+        const base = await start((app) => {
+            app.post('/upload', multipart({ storage: 'disk', uploadDir: dir }), async (req, res) => {
+                await fs.promises.rename(req.files[0].path!, kept);
+                res.send('ok');
+            });
+        });
+
+        const body = form([['doc', new Blob(['keep me']), 'a.txt']]);
+        expect(await (await fetch(`${base}/upload`, { method: 'POST', body })).text()).toBe('ok');
+        await sleep(50);
+        expect(fs.readFileSync(kept, 'utf8')).toBe('keep me');
+    });
+
+    test('answers 413 for files over maxFileSize and removes what was written', async () => {
+        const dir = uploadDir();
+        const base = await uploadServer({ storage: 'disk', uploadDir: dir, maxFileSize: 1000 });
+
+        const body = form([
+            ['small', new Blob(['ok']), 'small.txt'],
+            ['big', new Blob([new Uint8Array(5000)]), 'big.bin'],
+        ]);
+        const response = await fetch(`${base}/upload`, { method: 'POST', body });
+        expect(response.status).toBe(413);
+        expect(await response.text()).toBe('File big exceeds the size limit');
+        await sleep(50);
+        expect(fs.readdirSync(dir)).toEqual([]);
+    });
+
+    test('answers 415 for file types that are not allowed', async () => {
+        const base = await uploadServer({ allowedMimeTypes: ['image/*'] });
+
+        const image = form([['avatar', new Blob(['png'], { type: 'image/png' }), 'a.png']]);
+        expect((await fetch(`${base}/upload`, { method: 'POST', body: image })).status).toBe(200);
+        const script = form([['avatar', new Blob(['x'], { type: 'text/javascript' }), 'a.js']]);
+        const response = await fetch(`${base}/upload`, { method: 'POST', body: script });
+        expect([response.status, await response.text()]).toEqual([415, 'File type text/javascript is not allowed']);
+    });
+
+    test('writes nothing for requests no upload route takes', async () => {
+        const dir = uploadDir();
+        const base = await start((app) => {
+            app.post('/upload', multipart({ storage: 'disk', uploadDir: dir }), (req, res) => res.send('ok'));
+            app.post('/other', (req, res) => res.send(`body ${req.rawBody.length}`));
+        });
+
+        const body = form([['doc', new Blob(['data']), 'a.txt']]);
+        expect((await fetch(`${base}/missing`, { method: 'POST', body })).status).toBe(404);
+        expect(await (await fetch(`${base}/other`, { method: 'POST', body })).text()).toBe('body 0');
+        expect(fs.readdirSync(dir)).toEqual([]);
+    });
+});
@@ -0,0 +1,304 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { HttpError } from './HttpError';
+import type { Middleware } from './SimpleExpressServer';
+
+export interface UploadedFile {
+    fieldName: string;
+    // Client-supplied name with path parts and unsafe characters removed
+    originalName: string;
+    mimeType: string;
+    size: number;
+    // Set with disk storage; move the file away before the response ends to keep it
+    path?: string;
+    // Set with memory storage
+    buffer?: Buffer;
+}
+
+export interface MultipartOptions {
+    storage?: 'memory' | 'disk';
+    // Directory for disk storage, defaults to the OS temp dir
+    uploadDir?: string;
+    // Checked while each file streams in (default 10 MiB)
+    maxFileSize?: number;
+    maxTotalFileSize?: number;
+    // Field values are held in memory (default 1 MiB each)
+    maxFieldSize?: number;
+    // Exact types or wildcards such as 'image/*'; all types are accepted when omitted
+    allowedMimeTypes?: string[];
+}
+
+export interface MultipartResult {
+    fields: { [key: string]: string | string[] };
+    files: UploadedFile[];
+}
+
+// A part being received; field values and memory uploads collect in `chunks`
+interface OpenPart {
+    name: string;
+    file?: UploadedFile;
+    output?: fs.promises.FileHandle;
+    chunks: Buffer[];
+    size: number;
+}
+
+type PartState = 'preamble' | 'boundary' | 'headers' | 'content' | 'epilogue';
+
+const CRLF = Buffer.from('\r\n');
+const HEADER_END = Buffer.from('\r\n\r\n');
+const MAX_PART_HEADER_SIZE = 16 * 1024;
+
+export function isMultipart(contentType?: string) {
+    return !!contentType && contentType.toLowerCase().startsWith('multipart/form-data');
+}
+
+// Deletes disk uploads that are still in place; files moved elsewhere are left alone
+export function removeUploads(files: UploadedFile[]) {
+    for (const file of files) {
+        if (file.path) fs.unlink(file.path, () => {});
+    }
+}
+
+export function sanitizeFilename(filename: string): string {
+    const base = filename.split(/[\\/]/).pop() || '';
+    const cleaned = base
+        .replace(/[\u0000-\u001f\u007f<>:"|?*]/g, '')
+        .replace(/^[.\s]+/, '')
+        .trim()
+        .slice(0, 255);
+    return cleaned || 'file';
+}
+
+function parseHeaderParams(value: string) {
+    const params: { [key: string]: string } = {};
+    const pattern = /;\s*([^=;\s]+)\s*=\s*(?:"((?:\\.|[^"\\])*)"|([^;]*))/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(value))) {
+        const raw = match[2] !== undefined ? match[2].replace(/\\(.)/g, '$1') : match[3].trim();
+        params[match[1].toLowerCase()] = raw;
+    }
+
+    // RFC 5987 `filename*=UTF-8''...` takes precedence over the plain parameter
+    const extended = params['filename*'];
+    if (extended) {
+        const encoded = /^[\w-]+'[^']*'(.*)$/.exec(extended);
+        try {
+            params['filename'] = decodeURIComponent(encoded ? encoded[1] : extended);
+        } catch (err) {
+            // Keep the plain filename when the extended one is malformed
+        }
+    }
+    return params;
+}
+
+function isAllowedType(mimeType: string, allowed: string[]) {
+    return allowed.some((type) =>
+        type.endsWith('/*') ? mimeType.startsWith(type.slice(0, -1)) : mimeType === type.toLowerCase()
+    );
+}
+
+function addField(fields: MultipartResult['fields'], name: string, value: string) {
+    const existing = fields[name];
+    if (existing === undefined) {
+        fields[name] = value;
+    } else if (Array.isArray(existing)) {
+        existing.push(value);
+    } else {
+        fields[name] = [existing, value];
+    }
+}
+
+function parsePartHeaders(head: string) {
+    const headers: { [key: string]: string } = {};
+    for (const line of head.split('\r\n')) {
+        const separator = line.indexOf(':');
+        if (separator !== -1) {
+            headers[line.substring(0, separator).trim().toLowerCase()] = line.substring(separator + 1).trim();
+        }
+    }
+    return headers;
+}
+
+// Parses a multipart/form-data body as its chunks arrive. File parts go to disk (or memory) piece
+// by piece and the size limits are checked before each piece is stored.
+export async function parseMultipart(
+    body: Buffer | AsyncIterable<Buffer>,
+    contentType: string,
+    options: MultipartOptions = {}
+): Promise<MultipartResult> {
+    const boundary = parseHeaderParams(contentType)['boundary'];
+    if (!boundary) {
+        throw new HttpError(400, 'Multipart boundary missing');
+    }
+
+    const maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024;
+    const maxFieldSize = options.maxFieldSize ?? 1024 * 1024;
+    const delimiter = Buffer.from(`\r\n--${boundary}`);
+    const result: MultipartResult = { fields: {}, files: [] };
+    let totalFileSize = 0;
+    let part: OpenPart | undefined;
+    // Asserted so the checks after `await consume()` see the updates made inside it
+    let state = 'preamble' as PartState;
+    // The leading CRLF lets the first delimiter match like the ones between parts
+    let buffer = CRLF;
+
+    const openPart = async (headers: { [key: string]: string }) => {
+        const disposition = headers['content-disposition'] || '';
+        const params = parseHeaderParams(disposition);
+        if (!/^form-data\b/i.test(disposition) || params['name'] === undefined) {
+            throw new HttpError(400, 'Multipart part without form-data name');
+        }
+        part = { name: params['name'], chunks: [], size: 0 };
+        if (params['filename'] === undefined) return;
+
+        const mimeType = (headers['content-type'] || 'application/octet-stream').split(';')[0].trim().toLowerCase();
+        if (options.allowedMimeTypes && !isAllowedType(mimeType, options.allowedMimeTypes)) {
+            throw new HttpError(415, `File type ${mimeType} is not allowed`);
+        }
+        part.file = { fieldName: part.name, originalName: sanitizeFilename(params['filename']), mimeType, size: 0 };
+        result.files.push(part.file);
+        if (options.storage === 'disk') {
+            // Random names keep clients from choosing or colliding with paths on the server
+            const name = randomUUID() + path.extname(part.file.originalName);
+            part.file.path = path.join(options.uploadDir || os.tmpdir(), name);
+            part.output = await fs.promises.open(part.file.path, 'wx');
+        }
+    };
+
+    const receive = async (piece: Buffer) => {
+        if (!piece.length) return;
+        const current = part!;
+        current.size += piece.length;
+        if (!current.file) {
+            if (current.size > maxFieldSize) {
+                throw new HttpError(413, `Field ${current.name} exceeds the size limit`);
+            }
+            current.chunks.push(piece);
+            return;
+        }
+
+        if (current.size > maxFileSize) {
+            throw new HttpError(413, `File ${current.name} exceeds the size limit`);
+        }
+        totalFileSize += piece.length;
+        if (options.maxTotalFileSize !== undefined && totalFileSize > options.maxTotalFileSize) {
+            throw new HttpError(413, 'Uploaded files exceed the total size limit');
+        }
+        if (current.output) {
+            await current.output.writeFile(piece);
+        } else {
+            current.chunks.push(piece);
+        }
+    };
+
+    const closePart = async () => {
+        const current = part!;
+        part = undefined;
+        if (!current.file) {
+            addField(result.fields, current.name, Buffer.concat(current.chunks).toString('utf8'));
+            return;
+        }
+        current.file.size = current.size;
+        if (current.output) {
+            await current.output.close();
+        } else {
+            current.file.buffer = Buffer.concat(current.chunks);
+        }
+    };
+
+    // Works through everything buffered so far; returns when more data is needed
+    const consume = async () => {
+        while (true) {
+            switch (state) {
+                case 'preamble':
+                case 'content': {
+                    const index = buffer.indexOf(delimiter);
+                    if (index === -1) {
+                        // The tail could be the start of a delimiter split across chunks
+                        const safe = Math.max(buffer.length - delimiter.length + 1, 0);
+                        if (state === 'content') await receive(buffer.subarray(0, safe));
+                        buffer = buffer.subarray(safe);
+                        return;
+                    }
+                    if (state === 'content') {
+                        await receive(buffer.subarray(0, index));
+                        await closePart();
+                    }
+                    buffer = buffer.subarray(index + delimiter.length);
+                    state = 'boundary';
+                    break;
+                }
+                case 'boundary': {
+                    if (buffer.length < 2) return;
+                    const ending = buffer.subarray(0, 2).toString('latin1');
+                    if (ending !== '--' && ending !== '\r\n') {
+                        throw new HttpError(400, 'Malformed multipart body');
+                    }
+                    buffer = buffer.subarray(2);
+                    state = ending === '--' ? 'epilogue' : 'headers';
+                    break;
+                }
+                case 'headers': {
+                    const headerEnd = buffer.indexOf(HEADER_END);
+                    if (headerEnd === -1) {
+                        if (buffer.length > MAX_PART_HEADER_SIZE) {
+                            throw new HttpError(400, 'Multipart part headers too large');
+                        }
+                        return;
+                    }
+                    await openPart(parsePartHeaders(buffer.subarray(0, headerEnd).toString('utf8')));
+                    buffer = buffer.subarray(headerEnd + 4);
+                    state = 'content';
+                    break;
+                }
+                case 'epilogue':
+                    // Anything after the closing delimiter is ignored
+                    buffer = Buffer.alloc(0);
+                    return;
+            }
+        }
+    };
+
+    try {
+        for await (const chunk of Buffer.isBuffer(body) ? [body] : body) {
+            buffer = buffer.length ? Buffer.concat([buffer, chunk]) : chunk;
+            await consume();
+        }
+        if (state !== 'epilogue') {
+            throw new HttpError(400, 'Malformed multipart body');
+        }
+    } catch (err) {
+        await part?.output?.close().catch(() => {});
+        await Promise.all(
+            result.files.filter((file) => file.path).map((file) => fs.promises.unlink(file.path!).catch(() => {}))
+        );
+        throw err;
+    }
+
+    return result;
+}
+
+// Parses multipart/form-data bodies into `req.body` (fields) and `req.files`. Mount it only on
+// the routes that take uploads so other requests never touch the disk; elsewhere the body is
+// never read and the connection is closed after the response.
+export function multipart(options: MultipartOptions = {}): Middleware {
+    return async (req, res, next) => {
+        const contentType = req.headers['content-type'];
+        if (!isMultipart(contentType)) {
+            next();
+            return;
+        }
+
+        const { fields, files } = await parseMultipart(req.bodyStream ?? req.rawBody, contentType!, options);
+        req.body = fields;
+        req.files = files;
+        if (res.finished || req.socket.destroyed) {
+            // Nobody will see these any more
+            removeUploads(files);
+            return;
+        }
+        next();
+    };
+}
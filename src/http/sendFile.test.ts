@@ -0,0 +1,114 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseRange } from './sendFile';
+import { start } from './testUtils';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'send-'));
+const root = path.join(dir, 'public');
+fs.mkdirSync(root);
+fs.writeFileSync(path.join(root, 'hello.txt'), 'Hello, world!');
+fs.writeFileSync(path.join(dir, 'secret.txt'), 'secret');
+
+afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+const base = await start((app) => {
+    app.static(root);
+    app.get('/files/*', (req, res) => res.sendFile(req.params['0'], { root }));
+    app.get('/report', (req, res) => res.sendFile(path.join(root, 'hello.txt'), { download: 'Bericht März.txt' }));
+});
+
+describe('parseRange', () => {
+    test('reads single, open-ended and suffix ranges', () => {
+        expect(parseRange('bytes=0-4', 13)).toEqual([[0, 4]]);
+        expect(parseRange('bytes=7-', 13)).toEqual([[7, 12]]);
+        expect(parseRange('bytes=-6', 13)).toEqual([[7, 12]]);
+        expect(parseRange('bytes=10-99', 13)).toEqual([[10, 12]]);
+    });
+
+    test('tells unsatisfiable ranges from ignorable headers', () => {
+        expect(parseRange('bytes=20-30', 13)).toEqual([]);
+        expect(parseRange('bytes=5-1', 13)).toBeUndefined();
+        expect(parseRange('items=0-1', 13)).toBeUndefined();
+        expect(parseRange(`bytes=${Array(17).fill('0-0').join(',')}`, 13)).toBeUndefined();
+    });
+});
+
+describe('sendFile', () => {
+    test('serves whole files with validators', async () => {
+        const response = await fetch(`${base}/hello.txt`);
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe('Hello, world!');
+        expect(response.headers.get('Content-Type')).toBe('text/plain');
+        expect(response.headers.get('Content-Length')).toBe('13');
+        expect(response.headers.get('Accept-Ranges')).toBe('bytes');
+        expect(response.headers.get('ETag')).toStartWith('W/"');
+    });
+
+    test('answers HEAD with the headers only', async () => {
+        const response = await fetch(`${base}/hello.txt`, { method: 'HEAD' });
+        expect(response.headers.get('Content-Length')).toBe('13');
+        expect(await response.text()).toBe('');
+    });
+
+    test('answers 304 to matching If-None-Match and If-Modified-Since', async () => {
+        const first = await fetch(`${base}/hello.txt`);
+        const etag = first.headers.get('ETag')!;
+        const lastModified = first.headers.get('Last-Modified')!;
+
+        const byTag = await fetch(`${base}/hello.txt`, { headers: { 'If-None-Match': `"other", ${etag}` } });
+        expect([byTag.status, await byTag.text()]).toEqual([304, '']);
+        const byDate = await fetch(`${base}/hello.txt`, { headers: { 'If-Modified-Since': lastModified } });
+        expect(byDate.status).toBe(304);
+        const stale = await fetch(`${base}/hello.txt`, { headers: { 'If-Modified-Since': 'Thu, 01 Jan 1970 00:00:00 GMT' } });
+        expect(stale.status).toBe(200);
+    });
+
+    test('serves a single range', async () => {
+        const response = await fetch(`${base}/hello.txt`, { headers: { Range: 'bytes=7-11' } });
+        expect(response.status).toBe(206);
+        expect(response.headers.get('Content-Range')).toBe('bytes 7-11/13');
+        expect(await response.text()).toBe('world');
+    });
+
+    test('serves several ranges as multipart/byteranges', async () => {
+        const response = await fetch(`${base}/hello.txt`, { headers: { Range: 'bytes=0-4,-6' } });
+        const boundary = /boundary=(\w+)/.exec(response.headers.get('Content-Type')!)![1];
+        const body = await response.text();
+
+        expect(response.status).toBe(206);
+        expect(Buffer.byteLength(body)).toBe(Number(response.headers.get('Content-Length')));
+        expect(body).toBe(
+            `--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 0-4/13\r\n\r\nHello\r\n` +
+                `--${boundary}\r\nContent-Type: text/plain\r\nContent-Range: bytes 7-12/13\r\n\r\nworld!\r\n` +
+                `--${boundary}--\r\n`
+        );
+    });
+
+    test('answers 416 to unsatisfiable ranges and ignores stale If-Range', async () => {
+        const unsatisfiable = await fetch(`${base}/hello.txt`, { headers: { Range: 'bytes=50-60' } });
+        expect(unsatisfiable.status).toBe(416);
+        expect(unsatisfiable.headers.get('Content-Range')).toBe('bytes */13');
+
+        const stale = await fetch(`${base}/hello.txt`, { headers: { Range: 'bytes=0-4', 'If-Range': '"old"' } });
+        expect([stale.status, await stale.text()]).toEqual([200, 'Hello, world!']);
+    });
+
+    test('refuses paths that leave the root', async () => {
+        const response = await fetch(`${base}/files/..%2Fsecret.txt`);
+        expect(response.status).toBe(403);
+        expect(await response.text()).not.toContain('secret');
+        expect((await fetch(`${base}/files/missing.txt`)).status).toBe(404);
+    });
+
+    test('suggests a download filename', async () => {
+        const response = await fetch(`${base}/report`);
+        expect(response.headers.get('Content-Disposition')).toBe(
+            `attachment; filename="Bericht M_rz.txt"; filename*=UTF-8''Bericht%20M%C3%A4rz.txt`
+        );
+        expect(await response.text()).toBe('Hello, world!');
+    });
+});
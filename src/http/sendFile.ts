@@ -0,0 +1,208 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
+import { HttpError } from './HttpError';
+import type { Request, Response } from './SimpleExpressServer';
+
+export interface SendFileOptions {
+    // Resolve the path against this directory and refuse anything outside it
+    root?: string;
+    // Serve as an attachment; a string overrides the suggested filename
+    download?: boolean | string;
+}
+
+const MAX_RANGES = 16;
+
+export function getMimeType(ext: string): string {
+    const mimeTypes: { [key: string]: string } = {
+        '.html': 'text/html',
+        '.css': 'text/css',
+        '.js': 'application/javascript',
+        '.txt': 'text/plain',
+        '.png': 'image/png',
+        '.jpg': 'image/jpeg',
+        '.jpeg': 'image/jpeg',
+        '.gif': 'image/gif',
+        '.svg': 'image/svg+xml',
+        '.webp': 'image/webp',
+        '.ico': 'image/x-icon',
+        '.json': 'application/json',
+        '.pdf': 'application/pdf',
+        '.mp3': 'audio/mpeg',
+        '.mp4': 'video/mp4',
+        '.woff2': 'font/woff2',
+        // Add more MIME types as needed
+    };
+    return mimeTypes[ext.toLowerCase()] || 'application/octet-stream';
+}
+
+// Returns undefined when the header should be ignored (malformed or abusive), an empty
+// array when no range is satisfiable, and otherwise inclusive [start, end] pairs.
+export function parseRange(header: string, size: number): [number, number][] | undefined {
+    const match = /^bytes=(.+)$/.exec(header.trim());
+    if (!match) return undefined;
+
+    const specs = match[1].split(',');
+    if (specs.length > MAX_RANGES) return undefined;
+
+    const ranges: [number, number][] = [];
+    for (const spec of specs) {
+        const parts = /^\s*(\d*)-(\d*)\s*$/.exec(spec);
+        if (!parts || (parts[1] === '' && parts[2] === '')) return undefined;
+
+        let start: number;
+        let end: number;
+        if (parts[1] === '') {
+            // Suffix range: the last N bytes
+            start = Math.max(size - parseInt(parts[2], 10), 0);
+            end = size - 1;
+        } else {
+            start = parseInt(parts[1], 10);
+            end = parts[2] === '' ? size - 1 : Math.min(parseInt(parts[2], 10), size - 1);
+            if (parts[2] !== '' && parseInt(parts[2], 10) < start) return undefined;
+        }
+        if (start < size && start <= end) {
+            ranges.push([start, end]);
+        }
+    }
+    return ranges;
+}
+
+function contentDisposition(filename: string) {
+    const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+    return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+function isFresh(req: Request, etag: string, lastModified: Date) {
+    const ifNoneMatch = req.headers['if-none-match'];
+    if (ifNoneMatch !== undefined) {
+        // Weak comparison, as required for If-None-Match
+        const strip = (tag: string) => tag.trim().replace(/^W\//, '');
+        return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some((tag) => strip(tag) === strip(etag));
+    }
+    const ifModifiedSince = Date.parse(req.headers['if-modified-since'] || '');
+    return !isNaN(ifModifiedSince) && Math.floor(lastModified.getTime() / 1000) * 1000 <= ifModifiedSince;
+}
+
+function rangeApplies(req: Request, etag: string, lastModified: Date) {
+    const ifRange = req.headers['if-range'];
+    if (ifRange === undefined) return true;
+    if (ifRange.trim().startsWith('"')) return ifRange.trim() === etag;
+    return lastModified.toUTCString() === ifRange.trim();
+}
+
+function multipartRanges(file: string, ranges: [number, number][], size: number, type: string, boundary: string) {
+    const partHead = ([start, end]: [number, number]) =>
+        `--${boundary}\r\nContent-Type: ${type}\r\nContent-Range: bytes ${start}-${end}/${size}\r\n\r\n`;
+    const closing = `--${boundary}--\r\n`;
+    const length =
+        ranges.reduce((total, range) => total + Buffer.byteLength(partHead(range)) + range[1] - range[0] + 1 + 2, 0) +
+        Buffer.byteLength(closing);
+
+    async function* parts() {
+        for (const range of ranges) {
+            yield Buffer.from(partHead(range));
+            yield* fs.createReadStream(file, { start: range[0], end: range[1] });
+            yield Buffer.from('\r\n');
+        }
+        yield Buffer.from(closing);
+    }
+    return { stream: Readable.from(parts()), length };
+}
+
+// Streams a file with conditional GET (ETag/Last-Modified) and Range support.
+// `callback` receives a 404 HttpError when there is no such file.
+export function sendFile(
+    req: Request,
+    res: Response,
+    filePath: string,
+    options: SendFileOptions,
+    callback: (err?: any) => void
+) {
+    if (filePath.includes('\0')) {
+        callback(new HttpError(400, 'Invalid path'));
+        return;
+    }
+
+    let file = path.resolve(filePath);
+    if (options.root !== undefined) {
+        const root = path.resolve(options.root);
+        file = path.join(root, filePath);
+        if (file !== root && !file.startsWith(root + path.sep)) {
+            callback(new HttpError(403, 'Forbidden'));
+            return;
+        }
+    }
+
+    fs.stat(file, (err, stats) => {
+        if (err || !stats.isFile()) {
+            callback(err && err.code !== 'ENOENT' && err.code !== 'ENOTDIR' ? err : new HttpError(404, 'File not found'));
+            return;
+        }
+
+        const type = res.headers['Content-Type'] || getMimeType(path.extname(file));
+        const etag = `W/"${stats.size.toString(16)}-${Math.floor(stats.mtimeMs).toString(16)}"`;
+        res.setHeader('ETag', etag);
+        res.setHeader('Last-Modified', stats.mtime.toUTCString());
+        res.setHeader('Accept-Ranges', 'bytes');
+        if (options.download) {
+            res.setHeader(
+                'Content-Disposition',
+                contentDisposition(typeof options.download === 'string' ? options.download : path.basename(file))
+            );
+        }
+
+        const cacheable = req.method === 'GET' || req.method === 'HEAD';
+        if (cacheable && isFresh(req, etag, stats.mtime)) {
+            res.statusCode = 304;
+            res.end();
+            callback();
+            return;
+        }
+
+        const rangeHeader = req.headers['range'];
+        const ranges =
+            cacheable && rangeHeader && rangeApplies(req, etag, stats.mtime)
+                ? parseRange(rangeHeader, stats.size)
+                : undefined;
+
+        if (ranges && !ranges.length) {
+            res.statusCode = 416;
+            res.setHeader('Content-Range', `bytes */${stats.size}`);
+            res.setHeader('Content-Type', 'text/plain');
+            res.send('Range Not Satisfiable');
+            callback();
+            return;
+        }
+
+        let stream: Readable;
+        if (ranges && ranges.length === 1) {
+            const [start, end] = ranges[0];
+            res.statusCode = 206;
+            res.setHeader('Content-Type', type);
+            res.setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+            res.setHeader('Content-Length', String(end - start + 1));
+            stream = fs.createReadStream(file, { start, end });
+        } else if (ranges) {
+            const boundary = randomUUID().replace(/-/g, '');
+            const multipart = multipartRanges(file, ranges, stats.size, type, boundary);
+            res.statusCode = 206;
+            res.setHeader('Content-Type', `multipart/byteranges; boundary=${boundary}`);
+            res.setHeader('Content-Length', String(multipart.length));
+            stream = multipart.stream;
+        } else {
+            res.setHeader('Content-Type', type);
+            res.setHeader('Content-Length', String(stats.size));
+            stream = fs.createReadStream(file);
+        }
+
+        if (req.method === 'HEAD') {
+            stream.destroy();
+            res.end();
+        } else {
+            res.stream(stream);
+        }
+        callback();
+    });
+}
@@ -0,0 +1,41 @@
+import { connect, createServer } from 'net';
+import type { AddressInfo } from 'net';
+import { spyOn } from 'bun:test';
+import SimpleExpressServer from './SimpleExpressServer';
+import type { ServerOptions } from './SimpleExpressServer';
+
+// Helpers shared by the server specs; not part of the public API
+
+spyOn(console, 'log').mockImplementation(() => {});
+
+// A port nothing listens on right now, as `listen` always binds the configured port
+function freePort(): Promise<number> {
+    return new Promise((resolve, reject) => {
+        const server = createServer();
+        server.once('error', reject);
+        server.listen(0, '127.0.0.1', () => {
+            const { port } = server.address() as AddressInfo;
+            server.close(() => resolve(port));
+        });
+    });
+}
+
+// Starts an app on a free port once `setup` added its routes and returns its base URL
+export async function start(setup: (app: SimpleExpressServer) => void, options?: ServerOptions) {
+    const port = await freePort();
+    const app = new SimpleExpressServer(port, options);
+    setup(app);
+    await new Promise<void>((resolve) => app.listen(resolve));
+    return `http://127.0.0.1:${port}`;
+}
+
+// Sends raw bytes and collects the reply until the server closes the connection
+export function rawRequest(base: string, raw: string) {
+    return new Promise<string>((resolve, reject) => {
+        let data = '';
+        const socket = connect(Number(new URL(base).port), '127.0.0.1', () => socket.write(raw));
+        socket.on('data', (chunk) => (data += chunk.toString()));
+        socket.on('error', reject);
+        socket.on('close', () => resolve(data));
+    });
+}
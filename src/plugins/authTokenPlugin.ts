@@ -0,0 +1,92 @@
+import type { AxiosCloneError, AxiosClonePlugin, AxiosInstance, RequestConfig } from '../types';
+import { isAxiosCloneError } from '../types';
+import { getHeader, setHeader } from '../core/headers';
+
+interface AuthTokenOptions {
+  // Current access token, if any
+  getToken: () => string | null | undefined | Promise<string | null | undefined>;
+  // Obtains and stores a new token. Requests it makes through the same client should set `skipAuthRefresh`.
+  refreshToken: (client: AxiosInstance) => Promise<string>;
+  shouldRefresh?: (error: AxiosCloneError) => boolean;
+  header?: string;
+  scheme?: string;
+  onRefreshFailed?: (error: unknown) => void;
+}
+
+const authTokenPlugin = (options: AuthTokenOptions): AxiosClonePlugin => {
+  return (client) => {
+    const {
+      getToken,
+      refreshToken,
+      shouldRefresh = (error) => error.response?.status === 401,
+      header = 'Authorization',
+      scheme = 'Bearer',
+      onRefreshFailed,
+    } = options;
+
+    // One refresh at a time; every request that fails meanwhile waits on the same promise
+    let refreshing: Promise<string> | null = null;
+
+    const formatToken = (token: string) => (scheme ? `${scheme} ${token}` : token);
+
+    const refresh = () => {
+      if (!refreshing) {
+        refreshing = refreshToken(client)
+          .catch((error) => {
+            onRefreshFailed?.(error);
+            throw error;
+          })
+          .finally(() => {
+            refreshing = null;
+          });
+      }
+      return refreshing;
+    };
+
+    client.interceptors.request.use(async (config) => {
+      if (getHeader(config.headers, header)) return config;
+
+      // Hold new requests until a running refresh settles, except the refresh call itself
+      if (refreshing && !config.skipAuthRefresh) {
+        await refreshing.catch(() => undefined);
+      }
+      const token = await getToken();
+      if (!token) return config;
+
+      const headers = { ...config.headers };
+      setHeader(headers, header, formatToken(token));
+      return { ...config, headers };
+    });
+
+    client.interceptors.response.use(null, async (error) => {
+      if (!isAxiosCloneError(error) || !error.config || !shouldRefresh(error)) throw error;
+
+      const config = error.config as RequestConfig;
+      if (config.skipAuthRefresh) throw error;
+
+      const sentWith = getHeader(config.headers, header);
+      const current = await getToken();
+
+      let token: string;
+      if (current && sentWith !== formatToken(current)) {
+        // Another request already refreshed while this one was in flight
+        token = current;
+      } else {
+        try {
+          token = await refresh();
+        } catch (refreshError) {
+          // The caller still sees the 401 it got; why the refresh failed hangs off `cause`
+          error.cause = refreshError;
+          throw error;
+        }
+      }
+
+      const headers = { ...config.headers };
+      setHeader(headers, header, formatToken(token));
+      // Replay once; a second rejection is returned to the caller as-is
+      return client.request({ ...config, headers, skipAuthRefresh: true });
+    });
+  };
+};
+
+export default authTokenPlugin;
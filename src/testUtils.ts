@@ -0,0 +1,29 @@
+import { AxiosClone } from './axiosClone';
+import { MockAdapter } from './adapters/MockAdapter';
+import type { MockAdapterOptions } from './adapters/MockAdapter';
+import type { CreateAxiosDefaults, RetryOptions } from './types';
+
+// Helpers shared by the specs; not part of the public API
+
+export interface MockClientOptions {
+  // Defaults to fast retries so failing attempts do not slow the suite down
+  retry?: RetryOptions;
+  mock?: MockAdapterOptions;
+}
+
+// A client for http://api.test whose requests are answered by a fresh MockAdapter
+export function createMockClient(defaults: CreateAxiosDefaults = {}, options: MockClientOptions = {}) {
+  const client = AxiosClone.create(
+    { baseURL: 'http://api.test', ...defaults },
+    options.retry ?? { retries: 3, delay: 10 }
+  );
+  return { client, mock: new MockAdapter(client, options.mock) };
+}
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const item of items) result.push(item);
+  return result;
+}
@@ -1,18 +1,134 @@
+import type { HarOptions } from './adapters/HarAdapter';
+import type { CookieJar } from './core/CookieJar';
+import type { InterceptorManager } from './core/InterceptorManager';
+
 export interface RetryOptions {
   retries: number;
+  // Base delay in ms, doubled on every attempt
   delay: number;
+  maxDelay?: number;
+  jitter?: 'none' | 'full' | 'equal';
+  retryableStatuses?: number[];
+  retryableMethods?: string[];
+  respectRetryAfter?: boolean;
+  // Replaces the default status/network check; method and cancellation rules still apply
+  retryCondition?: (error: AxiosCloneError, attempt: number) => boolean | Promise<boolean>;
+  onRetry?: (error: AxiosCloneError, attempt: number, delay: number) => void | Promise<void>;
+}
+
+export type ResponseType = 'json' | 'text' | 'arraybuffer' | 'blob' | 'stream' | 'document';
+
+export type TransformRequest = (this: RequestConfig, data: any, headers: Record<string, string>) => any;
+export type TransformResponse = (this: RequestConfig, data: any, headers: Headers, status?: number) => any;
+
+export interface ParamsSerializerOptions {
+  // How arrays are written: a[]=1&a[]=2, a[0]=1&a[1]=2, a=1&a=2 or a=1,2
+  arrayFormat?: 'brackets' | 'indices' | 'repeat' | 'comma';
+  encode?: (value: string) => string;
+  // Replaces the built-in serializer entirely
+  serialize?: (params: Record<string, any>) => string;
+}
+
+export interface CacheEntry {
+  data: any;
+  status: number;
+  statusText?: string;
+  headers: [string, string][];
+  expires: number;
+  etag?: string;
+  lastModified?: string;
+  // Request header values the response varied on, keyed by lowercase name
+  varyHeaders: Record<string, string>;
+}
+
+// Storage backends may be synchronous or async
+export interface CacheStorage {
+  get(key: string): CacheEntry | undefined | Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+export interface CacheOptions {
+  // Overrides the freshness lifetime the server sent, in ms
+  ttl?: number;
+  storage?: CacheStorage;
+}
+
+export interface ProgressEvent {
+  loaded: number;
+  // From Content-Length (downloads) or the serialized body size (uploads), when known
+  total?: number;
+  // Bytes in the chunk that triggered this event
+  bytes: number;
+  progress?: number;
+  // Bytes per second since the transfer started
+  rate?: number;
+  // Seconds remaining at the current rate
+  estimated?: number;
+  upload: boolean;
+  download: boolean;
+}
+
+// Anything with a throwing `parse`, e.g. a zod schema or one built with `v` from core/validator
+export interface Schema<T> {
+  parse(data: unknown): T;
 }
 
-export interface RequestConfig {
+export interface ValidationIssue {
+  path: (string | number)[];
+  message: string;
+}
+
+export interface RequestConfig<T = any> {
   method: string;
   url?: string;
   headers?: Record<string, string>;
   data?: any;
   params?: Record<string, any>; 
   timeout?: number;
+  baseURL?: string;
+  withCredentials?: boolean;
+  signal?: AbortSignal;
+  responseType?: ResponseType;
+  transformRequest?: TransformRequest | TransformRequest[];
+  transformResponse?: TransformResponse | TransformResponse[];
+  adapter?: AxiosCloneAdapter;
+  retry?: Partial<RetryOptions> | false;
+  // Decides which statuses resolve; `null` accepts every response
+  validateStatus?: ((status: number) => boolean) | null;
+  paramsSerializer?: ParamsSerializerOptions | ((params: Record<string, any>) => string);
+  // Opt-in caching for GET requests
+  cache?: boolean | CacheOptions;
+  onUploadProgress?: (event: ProgressEvent) => void;
+  onDownloadProgress?: (event: ProgressEvent) => void;
+  // Queue priority when the instance limits concurrency; higher runs first
+  priority?: number;
+  // Sent as HTTP Basic credentials
+  auth?: { username: string; password: string };
+  // Keeps authTokenPlugin from refreshing and replaying this request on 401
+  skipAuthRefresh?: boolean;
+  // Validates the response body; the parsed result replaces `data`
+  schema?: Schema<T>;
+  // Sends a W3C traceparent header: `true` generates one, a string is sent as-is
+  traceparent?: boolean | string;
+  // Redirect hops to follow while a cookie jar is in use (default 5); the last 3xx is returned beyond that
+  maxRedirects?: number;
 }
 
-export interface AxiosRequestConfig extends Omit<RequestConfig, 'method' | 'url'> {
+// What an adapter receives: the URL is fully resolved, headers flattened and `data` already serialized
+export interface AdapterConfig extends RequestConfig {
+  url: string;
+  headers: Record<string, string>;
+  signal: AbortSignal;
+  // 'manual' asks for redirects to be returned instead of followed
+  redirect?: 'follow' | 'manual';
+}
+
+// Performs the actual I/O and resolves with the raw response, whatever its status
+export type AxiosCloneAdapter = (config: AdapterConfig) => Promise<globalThis.Response>;
+
+export interface AxiosRequestConfig<T = any> extends Omit<RequestConfig<T>, 'method' | 'url'> {
   url?: string;
   method?: string;
   baseURL?: string;
@@ -23,6 +139,62 @@ export interface AxiosRequestConfig extends Omit<RequestConfig, 'method' | 'url'
   withCredentials?: boolean;
 }
 
+export type HeaderGroup = 'common' | 'get' | 'post' | 'put' | 'patch' | 'delete' | 'head' | 'options';
+
+// Flat headers apply to every request; `common` and the per-method groups are merged in at request time
+export type DefaultHeaders = { [K in HeaderGroup]?: Record<string, string> } & {
+  [header: string]: string | Record<string, string> | undefined;
+};
+
+export interface AxiosDefaults extends Omit<AxiosRequestConfig, 'headers'> {
+  headers: DefaultHeaders & { [K in HeaderGroup]: Record<string, string> };
+}
+
+export interface QueueOptions {
+  maxConcurrent?: number;
+  maxRequestsPerInterval?: number;
+  // Window for maxRequestsPerInterval, in ms
+  interval?: number;
+}
+
+export interface QueueStats {
+  active: number;
+  queued: number;
+  processed: number;
+  // Wait times in ms between entering the queue and starting
+  averageWait: number;
+  maxWait: number;
+}
+
+export interface RequestTimings {
+  // Epoch ms at which request() handed the config to the queue
+  startedAt: number;
+  // The rest are durations in ms
+  queued: number;
+  // Headers received, measured from the start of the final attempt
+  firstByte: number;
+  bodyRead: number;
+  total: number;
+  attempts: number;
+  retryDelays: number[];
+}
+
+// Observability hooks; they run once per request, not per retry attempt
+export interface RequestHooks {
+  onRequestStart?: (config: RequestConfig) => void;
+  onRequestEnd?: (response: Response<any>) => void;
+  onError?: (error: AxiosCloneError) => void;
+}
+
+// Instance-only options sit next to the request defaults
+export interface CreateAxiosDefaults extends Omit<AxiosRequestConfig, 'headers'>, QueueOptions, RequestHooks {
+  headers?: DefaultHeaders;
+  // Stores Set-Cookie responses and replays them on requests made withCredentials
+  jar?: CookieJar;
+  // Records traffic to, or replays it from, a HAR file
+  har?: HarOptions;
+}
+
 export interface Response<T = any> {
   status: number;
   statusText?: string;
@@ -30,15 +202,155 @@ export interface Response<T = any> {
   config: AxiosRequestConfig;
   request?: any;
   data: T;
+  // True when served from the HTTP cache, including after a 304 revalidation
+  cached?: boolean;
+  timings?: RequestTimings;
 }
 
+export interface InterceptorOptions {
+  // Only consulted for request interceptors; skips the interceptor when it returns false
+  runWhen?: (config: RequestConfig) => boolean;
+}
+
+export interface Interceptor<V> extends InterceptorOptions {
+  fulfilled?: (value: V) => V | Promise<V>;
+  rejected?: (error: any) => any;
+}
+
+export interface PaginationStrategy<T> {
+  // Adjusts the first request, e.g. to add the start page and page size
+  getInitialRequest?(config: AxiosRequestConfig): AxiosRequestConfig;
+  getItems(response: Response<any>): T[];
+  // Config for the following page, or null once there is none
+  getNextRequest(response: Response<any>, config: AxiosRequestConfig, page: number): AxiosRequestConfig | null;
+}
+
+export interface PaginateConfig extends AxiosRequestConfig {
+  maxPages?: number;
+}
+
+export interface ServerSentEvent {
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+export interface StreamConfig extends AxiosRequestConfig {
+  // Defaults to picking by Content-Type
+  format?: 'sse' | 'ndjson';
+  // SSE only: reconnect with Last-Event-ID when the connection drops
+  reconnect?: boolean | { maxRetries?: number; delay?: number };
+  lastEventId?: string;
+}
+
+export type AxiosClonePlugin = (client: AxiosInstance) => void;
+
 export interface AxiosInstance {
-  request<T>(config: AxiosRequestConfig): Promise<Response<T>>;
-  get<T>(url: string, config?: AxiosRequestConfig): Promise<Response<T>>;
-  post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<Response<T>>;
-  put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<Response<T>>;
-  delete<T>(url: string, config?: AxiosRequestConfig): Promise<Response<T>>;
-  head<T>(url: string, config?: AxiosRequestConfig): Promise<Response<T>>;
-  patch<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<Response<T>>;
-  options<T>(url: string, config?: AxiosRequestConfig): Promise<Response<T>>;
+  defaults: AxiosDefaults;
+  interceptors: {
+    // Runs last-added first, like axios
+    request: InterceptorManager<RequestConfig>;
+    response: InterceptorManager<Response<any>>;
+  };
+  request<T>(config: AxiosRequestConfig<T>): Promise<Response<T>>;
+  get<T>(url: string, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  post<T>(url: string, data?: any, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  put<T>(url: string, data?: any, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  delete<T>(url: string, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  head<T>(url: string, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  patch<T>(url: string, data?: any, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  options<T>(url: string, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  postForm<T>(url: string, data?: any, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  putForm<T>(url: string, data?: any, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  patchForm<T>(url: string, data?: any, config?: AxiosRequestConfig<T>): Promise<Response<T>>;
+  addPlugin(...plugins: AxiosClonePlugin[]): void;
+  paginate<T>(url: string, config?: PaginateConfig, strategy?: PaginationStrategy<T>): AsyncIterable<T>;
+  stream<T = ServerSentEvent>(url: string, config?: StreamConfig): AsyncIterable<T>;
+}
+
+export class AxiosCloneError<T = any> extends Error {
+  static readonly ERR_BAD_OPTION_VALUE = 'ERR_BAD_OPTION_VALUE';
+  static readonly ERR_BAD_OPTION = 'ERR_BAD_OPTION';
+  static readonly ERR_INVALID_URL = 'ERR_INVALID_URL';
+  static readonly ERR_NETWORK = 'ERR_NETWORK';
+  static readonly ERR_TIMEOUT = 'ERR_TIMEOUT';
+  static readonly ERR_CANCELED = 'ERR_CANCELED';
+  static readonly ERR_BAD_REQUEST = 'ERR_BAD_REQUEST';
+  static readonly ERR_BAD_RESPONSE = 'ERR_BAD_RESPONSE';
+  static readonly ERR_VALIDATION = 'ERR_VALIDATION';
+
+  readonly isAxiosCloneError = true;
+  code?: string;
+  config?: AxiosRequestConfig;
+  request?: any;
+  response?: Response<T>;
+  status?: number;
+  // Number of attempts made before this error was thrown, including retries
+  attempts?: number;
+  timings?: RequestTimings;
+  cause?: unknown;
+
+  constructor(message: string, code?: string, config?: AxiosRequestConfig, request?: any, response?: Response<T>) {
+    super(message);
+    this.name = 'AxiosCloneError';
+    this.code = code;
+    this.config = config;
+    this.request = request;
+    this.response = response;
+    this.status = response?.status;
+  }
+
+  // Wraps an arbitrary thrown value, keeping the original as `cause`
+  static from<T = any>(
+    error: unknown,
+    code?: string,
+    config?: AxiosRequestConfig,
+    request?: any,
+    response?: Response<T>
+  ): AxiosCloneError<T> {
+    if (isAxiosCloneError<T>(error)) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const wrapped = new AxiosCloneError<T>(message, code, config, request, response);
+    wrapped.cause = error;
+    return wrapped;
+  }
+
+  toJSON() {
+    return {
+      name: this.name,
+      message: this.message,
+      code: this.code,
+      status: this.status,
+      config: this.config,
+      stack: this.stack,
+    };
+  }
+}
+
+export class CanceledError<T = any> extends AxiosCloneError<T> {
+  constructor(message?: string, config?: AxiosRequestConfig, request?: any) {
+    super(message || 'canceled', AxiosCloneError.ERR_CANCELED, config, request);
+    this.name = 'CanceledError';
+  }
+}
+
+export class ValidationError<T = any> extends AxiosCloneError<T> {
+  issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], config?: AxiosRequestConfig, request?: any, response?: Response<T>) {
+    const paths = issues.map((issue) => issue.path.join('.') || '(root)');
+    super(`Response failed schema validation at ${paths.join(', ')}`, AxiosCloneError.ERR_VALIDATION, config, request, response);
+    this.name = 'ValidationError';
+    this.issues = issues;
+  }
+}
+
+export function isCancel(value: unknown): value is CanceledError {
+  return isAxiosCloneError(value) && value.code === AxiosCloneError.ERR_CANCELED;
+}
+
+export function isAxiosCloneError<T = any>(payload: unknown): payload is AxiosCloneError<T> {
+  return typeof payload === 'object' && payload !== null && (payload as any).isAxiosCloneError === true;
 }